@@ -22,6 +22,19 @@ import { Timeline } from "./components/Timeline";
 import { UserProfile } from "./components/UserProfile";
 import { MyPosts } from "./components/MyPosts";
 import { PostDetail } from "./components/PostDetail";
+import { Notifications } from "./components/Notifications";
+import { Messages } from "./components/Messages";
+import { Search } from "./components/Search";
+import { Explore, TrendingSidebar } from "./components/Trending";
+import { FollowSuggestionsCard } from "./components/FollowSuggestions";
+import { Bookmarks } from "./components/Bookmarks";
+import { ScheduledPosts } from "./components/ScheduledPosts";
+import { PostInteractions } from "./components/PostInteractions";
+import { SocialNetworkProvider } from "./components/SocialNetworkProvider";
+import { useNotifications } from "./hooks/useNotifications";
+import { useConversations } from "./hooks/useDirectMessages";
+import { useScheduledPublisher } from "./hooks/useScheduledPosts";
+import { useInteractionsMigration } from "./hooks/usePostInteractions";
 
 import logo from "/logo.svg";
 
@@ -53,6 +66,10 @@ interface AppLayoutProps {
 const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   const { isLoggedIn } = useShogun();
   const location = useLocation();
+  const { unreadCount } = useNotifications();
+  const { unreadCount: unreadConversations } = useConversations();
+  useScheduledPublisher();
+  useInteractionsMigration();
 
   return (
     <div className="app-shell">
@@ -71,6 +88,18 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
             >
               Timeline
             </Link>
+            <Link
+              to="/search"
+              className={`btn btn-ghost btn-sm ${location.pathname === "/search" ? "btn-active" : ""}`}
+            >
+              Search
+            </Link>
+            <Link
+              to="/explore"
+              className={`btn btn-ghost btn-sm ${location.pathname === "/explore" ? "btn-active" : ""}`}
+            >
+              Explore
+            </Link>
             {isLoggedIn && (
               <Link
                 to="/profile"
@@ -87,6 +116,44 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
                 My Posts
               </Link>
             )}
+            {isLoggedIn && (
+              <Link
+                to="/bookmarks"
+                className={`btn btn-ghost btn-sm ${location.pathname === "/bookmarks" ? "btn-active" : ""}`}
+              >
+                Bookmarks
+              </Link>
+            )}
+            {isLoggedIn && (
+              <Link
+                to="/scheduled"
+                className={`btn btn-ghost btn-sm ${location.pathname === "/scheduled" ? "btn-active" : ""}`}
+              >
+                Scheduled
+              </Link>
+            )}
+            {isLoggedIn && (
+              <Link
+                to="/messages"
+                className={`btn btn-ghost btn-sm gap-1 ${location.pathname.startsWith("/messages") ? "btn-active" : ""}`}
+              >
+                Messages
+                {unreadConversations > 0 && (
+                  <span className="badge badge-primary badge-sm">{unreadConversations}</span>
+                )}
+              </Link>
+            )}
+            {isLoggedIn && (
+              <Link
+                to="/notifications"
+                className={`btn btn-ghost btn-sm gap-1 ${location.pathname === "/notifications" ? "btn-active" : ""}`}
+              >
+                Notifications
+                {unreadCount > 0 && (
+                  <span className="badge badge-primary badge-sm">{unreadCount}</span>
+                )}
+              </Link>
+            )}
             <ThemeToggle />
           </nav>
         </div>
@@ -119,7 +186,13 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
         )}
 
         {/* Main Content */}
-        {children}
+        <div className="app-columns">
+          <div className="app-content">{children}</div>
+          <aside className="app-sidebar space-y-6">
+            <TrendingSidebar />
+            <FollowSuggestionsCard />
+          </aside>
+        </div>
       </main>
 
       <footer className="w-full py-5 px-1 mt-auto">
@@ -185,6 +258,18 @@ const UserProfileWrapper: React.FC = () => {
   return <UserProfile userPub={userPub} />;
 };
 
+// Wrapper for Timeline filtered by a hashtag
+const HashtagWrapper: React.FC = () => {
+  const { tag } = useParams<{ tag: string }>();
+  return <Timeline hashtag={tag?.toLowerCase()} />;
+};
+
+// Wrapper for Messages with route params
+const MessagesWrapper: React.FC = () => {
+  const { userPub } = useParams<{ userPub: string }>();
+  return <Messages peerPub={userPub} />;
+};
+
 interface ShogunAppProps {
   shogun: ShogunCore;
 }
@@ -218,14 +303,26 @@ function ShogunApp({ shogun }: ShogunAppProps) {
         onSignupSuccess={handleLoginSuccess}
         onError={handleError}
       >
-        <Routes>
-          <Route path="/" element={<MainAppWithLocation shogun={shogun} />} />
-          <Route path="/profile" element={<AppLayout><UserProfile /></AppLayout>} />
-          <Route path="/profile/:userPub" element={<AppLayout><UserProfileWrapper /></AppLayout>} />
-          <Route path="/my-posts" element={<AppLayout><MyPosts /></AppLayout>} />
-          <Route path="/post/:postId" element={<AppLayout><PostDetail /></AppLayout>} />
-          <Route path="*" element={<Navigate to="/" replace />} />
-        </Routes>
+        <SocialNetworkProvider>
+          <Routes>
+            <Route path="/" element={<MainAppWithLocation shogun={shogun} />} />
+            <Route path="/profile" element={<AppLayout><UserProfile /></AppLayout>} />
+            <Route path="/profile/:userPub" element={<AppLayout><UserProfileWrapper /></AppLayout>} />
+            <Route path="/my-posts" element={<AppLayout><MyPosts /></AppLayout>} />
+            <Route path="/post/:postId" element={<AppLayout><PostDetail /></AppLayout>} />
+            <Route path="/post/:postId/likes" element={<AppLayout><PostInteractions kind="likes" /></AppLayout>} />
+            <Route path="/post/:postId/reposts" element={<AppLayout><PostInteractions kind="reposts" /></AppLayout>} />
+            <Route path="/bookmarks" element={<AppLayout><Bookmarks /></AppLayout>} />
+            <Route path="/scheduled" element={<AppLayout><ScheduledPosts /></AppLayout>} />
+            <Route path="/notifications" element={<AppLayout><Notifications /></AppLayout>} />
+            <Route path="/messages" element={<AppLayout><MessagesWrapper /></AppLayout>} />
+            <Route path="/messages/:userPub" element={<AppLayout><MessagesWrapper /></AppLayout>} />
+            <Route path="/search" element={<AppLayout><Search /></AppLayout>} />
+            <Route path="/explore" element={<AppLayout><Explore /></AppLayout>} />
+            <Route path="/hashtag/:tag" element={<AppLayout><HashtagWrapper /></AppLayout>} />
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
+        </SocialNetworkProvider>
       </ShogunButtonProvider>
     </Router>
   );
@@ -0,0 +1,44 @@
+import React from 'react';
+import { useShogun } from 'shogun-button-react';
+import { useBookmarkedPosts } from '../hooks/useBookmarks';
+import { PostCard } from './PostCard';
+import { toCardPost } from '../utils/postUtils';
+
+/**
+ * The current user's bookmarked posts (visible only to them)
+ */
+export const Bookmarks: React.FC = () => {
+  const { isLoggedIn } = useShogun();
+  const { posts, loading } = useBookmarkedPosts();
+
+  if (!isLoggedIn) {
+    return (
+      <div className="card content-card p-8 text-center">
+        <p className="text-shogun-secondary">Please sign in to view your bookmarks.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div className="card content-card p-6 mb-6 w-full">
+        <h2 className="text-2xl font-bold">Bookmarks</h2>
+        <p className="text-sm text-shogun-secondary">Only you can see the posts you bookmark.</p>
+      </div>
+
+      {loading && posts.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <span className="loading loading-lg"></span>
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="card content-card p-8 text-center w-full">
+          <p className="text-shogun-secondary">No bookmarks yet.</p>
+        </div>
+      ) : (
+        posts.map((post) => (
+          <PostCard key={post.id} post={toCardPost(post)} />
+        ))
+      )}
+    </div>
+  );
+};
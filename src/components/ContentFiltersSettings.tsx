@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { useContentFilters } from '../hooks/useContentFilters';
+import {
+  FILTER_CONTEXTS,
+  validateFilter,
+  type FilterAction,
+  type FilterContext,
+  type FilterMatchType,
+} from '../utils/contentFilters';
+
+const MATCH_TYPE_LABELS: Record<FilterMatchType, string> = {
+  keyword: 'Keyword',
+  word: 'Whole word',
+  regex: 'Regex',
+  hashtag: 'Hashtag',
+};
+
+const CONTEXT_LABELS: Record<FilterContext, string> = {
+  home: 'Home',
+  global: 'Global',
+  hashtag: 'Hashtags',
+  replies: 'Replies',
+};
+
+/**
+ * Manage keyword/regex/hashtag filters, shown on the user's own profile
+ */
+export const ContentFiltersSettings: React.FC = () => {
+  const { filters, saveFilter, removeFilter } = useContentFilters();
+  const [pattern, setPattern] = useState('');
+  const [type, setType] = useState<FilterMatchType>('keyword');
+  const [contexts, setContexts] = useState<FilterContext[]>([...FILTER_CONTEXTS]);
+  const [action, setAction] = useState<FilterAction>('hide');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const toggleContext = (context: FilterContext) => {
+    setContexts((prev) =>
+      prev.includes(context) ? prev.filter((c) => c !== context) : [...prev, context]
+    );
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateFilter({ type, pattern, contexts });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const result = await saveFilter({ type, pattern, contexts, action });
+    setSaving(false);
+    if (result.success) {
+      setPattern('');
+    } else {
+      setError(result.error || 'Failed to save filter');
+    }
+  };
+
+  return (
+    <div className="card content-card p-6 mb-6 w-full">
+      <h3 className="text-xl font-bold mb-4">Filters</h3>
+
+      <form onSubmit={handleAdd} className="mb-4 space-y-3">
+        <div className="flex gap-2">
+          <select
+            className="select select-bordered select-sm"
+            value={type}
+            onChange={(e) => setType(e.target.value as FilterMatchType)}
+          >
+            {(Object.keys(MATCH_TYPE_LABELS) as FilterMatchType[]).map((matchType) => (
+              <option key={matchType} value={matchType}>
+                {MATCH_TYPE_LABELS[matchType]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className="input input-bordered input-sm flex-1"
+            placeholder={type === 'regex' ? 'e.g. spoiler(s)?' : type === 'hashtag' ? '#topic' : 'Word or phrase'}
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          {FILTER_CONTEXTS.map((context) => (
+            <label key={context} className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-xs"
+                checked={contexts.includes(context)}
+                onChange={() => toggleContext(context)}
+              />
+              {CONTEXT_LABELS[context]}
+            </label>
+          ))}
+          <select
+            className="select select-bordered select-xs"
+            value={action}
+            onChange={(e) => setAction(e.target.value as FilterAction)}
+          >
+            <option value="hide">Hide</option>
+            <option value="collapse">Collapse with warning</option>
+          </select>
+          <button type="submit" className="btn btn-shogun-primary btn-sm ml-auto" disabled={saving}>
+            {saving ? <span className="loading loading-spinner loading-xs"></span> : 'Add filter'}
+          </button>
+        </div>
+        {error && <p className="text-xs text-error">{error}</p>}
+      </form>
+
+      {filters.length === 0 ? (
+        <p className="text-sm text-shogun-secondary">No filters yet.</p>
+      ) : (
+        filters.map((filter) => (
+          <div
+            key={filter.id}
+            className="flex items-center justify-between p-3 rounded-lg hover:bg-base-200 transition-colors"
+          >
+            <div className="min-w-0">
+              <p className="font-mono truncate">{filter.pattern}</p>
+              <p className="text-xs text-shogun-secondary">
+                {MATCH_TYPE_LABELS[filter.type]} · {filter.contexts.map((c) => CONTEXT_LABELS[c]).join(', ')} ·{' '}
+                {filter.action === 'collapse' ? 'Collapse' : 'Hide'}
+              </p>
+            </div>
+            <button className="btn btn-sm btn-outline" onClick={() => removeFilter(filter.id)}>
+              Remove
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
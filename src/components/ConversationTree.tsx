@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { PostCard } from './PostCard';
+import { countReplies, splitThreadContinuation } from '../utils/conversation';
+import type { ConversationNode } from '../utils/socialProtocol';
+import { toCardPost } from '../utils/postUtils';
+
+// Replies shown before "Show N more replies"
+const VISIBLE_REPLIES = 3;
+// Branches deeper than this start collapsed
+const EXPANDED_DEPTH = 3;
+
+interface ConversationTreeProps {
+  nodes: ConversationNode[];
+  depth?: number;
+  onChange?: () => void; // Called after a reply, edit or deletion
+}
+
+/**
+ * Replies of a conversation as an indented tree
+ */
+export const ConversationTree: React.FC<ConversationTreeProps> = ({ nodes, depth = 0, onChange }) => {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? nodes : nodes.slice(0, VISIBLE_REPLIES);
+  const hidden = nodes.length - visible.length;
+
+  return (
+    <div>
+      {visible.map((node) => (
+        <ConversationBranch key={node.post.id} node={node} depth={depth} onChange={onChange} />
+      ))}
+      {hidden > 0 && (
+        <button className="btn btn-ghost btn-sm mb-4" onClick={() => setShowAll(true)}>
+          Show {hidden} more {hidden === 1 ? 'reply' : 'replies'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// A post with its nested replies, followed by the next part of its thread
+const ConversationBranch: React.FC<{
+  node: ConversationNode;
+  depth: number;
+  onChange?: () => void;
+}> = ({ node, depth, onChange }) => {
+  const [collapsed, setCollapsed] = useState(depth >= EXPANDED_DEPTH);
+  const { next, others } = splitThreadContinuation(node.post.author, node.replies);
+  const replyCount = countReplies(others);
+
+  return (
+    <>
+      <PostCard post={toCardPost(node.post)} onReply={onChange} onDelete={onChange} showReplies={false} />
+
+      {others.length > 0 && (
+        <div className="ml-4 pl-4 border-l-2 border-base-300 mb-4">
+          <button className="btn btn-ghost btn-xs mb-2" onClick={() => setCollapsed(!collapsed)}>
+            {collapsed ? `Show ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}` : 'Hide replies'}
+          </button>
+          {!collapsed && <ConversationTree nodes={others} depth={depth + 1} onChange={onChange} />}
+        </div>
+      )}
+
+      {next && <ConversationBranch node={next} depth={depth} onChange={onChange} />}
+    </>
+  );
+};
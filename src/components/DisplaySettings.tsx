@@ -0,0 +1,45 @@
+import React from 'react';
+import { useDisplayPreferences, type DisplayPreferences } from '../hooks/useDisplayPreferences';
+
+const PREFERENCE_DETAILS: { key: keyof DisplayPreferences; label: string; description: string }[] = [
+  {
+    key: 'expandContentWarnings',
+    label: 'Always expand content warnings',
+    description: 'Show posts marked with a content warning without clicking "Show more".',
+  },
+  {
+    key: 'showSensitiveMedia',
+    label: 'Always show sensitive media',
+    description: 'Do not blur images marked as sensitive.',
+  },
+];
+
+/**
+ * Display preferences for content warnings and sensitive media, shown on the
+ * user's own profile (stored on this device)
+ */
+export const DisplaySettings: React.FC = () => {
+  const { preferences, setPreference } = useDisplayPreferences();
+
+  return (
+    <div className="card content-card p-6 mb-6 w-full">
+      <h3 className="text-xl font-bold mb-4">Display</h3>
+      <div className="space-y-4">
+        {PREFERENCE_DETAILS.map(({ key, label, description }) => (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <div>
+              <p className="font-semibold">{label}</p>
+              <p className="text-sm text-shogun-secondary">{description}</p>
+            </div>
+            <input
+              type="checkbox"
+              className="toggle"
+              checked={preferences[key]}
+              onChange={(e) => setPreference(key, e.target.checked)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAccountLock, useFollowRequests } from '../hooks/useFollowRequests';
+import { useUserProfile } from '../hooks/useUserProfile';
+import { formatDate } from '../utils/postUtils';
+import type { FollowRequest } from '../utils/socialProtocol';
+
+// Row of the pending follow requests list
+const FollowRequestItem: React.FC<{
+  request: FollowRequest;
+  onApprove: () => Promise<{ success: boolean; error?: string }>;
+  onReject: () => Promise<{ success: boolean; error?: string }>;
+}> = ({ request, onApprove, onReject }) => {
+  const { profile } = useUserProfile(request.requesterPub);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setBusy(true);
+    setError(null);
+    const result = await action();
+    if (!result.success) {
+      setError(result.error || 'Action failed');
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="flex items-center justify-between p-3 rounded-lg hover:bg-base-200 transition-colors">
+      <div className="min-w-0">
+        <Link to={`/profile/${request.requesterPub}`} className="font-semibold hover:underline block truncate">
+          {profile?.username || request.requesterPub.substring(0, 16) + '...'}
+        </Link>
+        <p className="text-sm text-shogun-secondary">Requested {formatDate(request.timestamp)}</p>
+        {error && <p className="text-xs text-error">{error}</p>}
+      </div>
+      <div className="flex gap-2">
+        <button className="btn btn-sm btn-shogun-primary" onClick={() => run(onApprove)} disabled={busy}>
+          {busy ? <span className="loading loading-spinner loading-xs"></span> : 'Approve'}
+        </button>
+        <button className="btn btn-sm btn-outline" onClick={() => run(onReject)} disabled={busy}>
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Private account toggle and pending follow requests, shown on the own profile
+ */
+export const FollowRequestsSettings: React.FC = () => {
+  const { locked, setLocked } = useAccountLock();
+  const { requests, approve, reject } = useFollowRequests();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    setSaving(true);
+    setError(null);
+    const result = await setLocked(!locked);
+    if (!result.success) {
+      setError(result.error || 'Failed to update account privacy');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="card content-card p-6 mb-6 w-full">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-bold">Private account</h3>
+          <p className="text-sm text-shogun-secondary">
+            New followers need your approval and your posts are readable only by approved followers.
+          </p>
+        </div>
+        {saving ? (
+          <span className="loading loading-spinner loading-sm"></span>
+        ) : (
+          <input type="checkbox" className="toggle" checked={locked} onChange={handleToggle} />
+        )}
+      </div>
+      {error && (
+        <div className="alert alert-error mt-4">
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      {requests.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-base-300">
+          <h4 className="font-semibold mb-2">Follow requests ({requests.length})</h4>
+          {requests.map((request) => (
+            <FollowRequestItem
+              key={request.requesterPub}
+              request={request}
+              onApprove={() => approve(request.requesterPub)}
+              onReject={() => reject(request.requesterPub)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useShogun } from 'shogun-button-react';
+import { useFollowSuggestions } from '../hooks/useFollowSuggestions';
+import { useUserProfile } from '../hooks/useUserProfile';
+import { describeSuggestion, type FollowSuggestion } from '../utils/followSuggestions';
+
+const SuggestionItem: React.FC<{
+  suggestion: FollowSuggestion;
+  onFollow: (userPub: string) => Promise<{ success: boolean; error?: string }>;
+  onDismiss: (userPub: string) => void;
+}> = ({ suggestion, onFollow, onDismiss }) => {
+  const { profile } = useUserProfile(suggestion.pub);
+  const [busy, setBusy] = useState(false);
+
+  const handleFollow = async () => {
+    setBusy(true);
+    await onFollow(suggestion.pub);
+    setBusy(false);
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <div className="flex-1 min-w-0">
+        <Link to={`/profile/${suggestion.pub}`} className="font-semibold hover:underline block truncate">
+          {profile?.username || suggestion.pub.substring(0, 12) + '...'}
+        </Link>
+        <p className="text-xs text-shogun-secondary truncate">{describeSuggestion(suggestion)}</p>
+      </div>
+      <button className="btn btn-xs btn-shogun-primary" onClick={handleFollow} disabled={busy}>
+        {busy ? <span className="loading loading-spinner loading-xs"></span> : 'Follow'}
+      </button>
+      <button className="btn btn-xs btn-ghost" onClick={() => onDismiss(suggestion.pub)} title="Dismiss">
+        ✕
+      </button>
+    </li>
+  );
+};
+
+/**
+ * "Who to follow" card shown in the sidebar
+ */
+export const FollowSuggestionsCard: React.FC = () => {
+  const { isLoggedIn } = useShogun();
+  const { suggestions, loading, follow, dismiss } = useFollowSuggestions();
+
+  if (!isLoggedIn || (!loading && suggestions.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="card content-card p-4 w-full">
+      <h3 className="font-bold mb-3">Who to follow</h3>
+      {loading && suggestions.length === 0 ? (
+        <span className="loading loading-spinner loading-sm"></span>
+      ) : (
+        <ul className="space-y-3">
+          {suggestions.map((suggestion) => (
+            <SuggestionItem key={suggestion.pub} suggestion={suggestion} onFollow={follow} onDismiss={dismiss} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useShogun } from 'shogun-button-react';
+import { useConversations, useConversation } from '../hooks/useDirectMessages';
+import { useUserProfile } from '../hooks/useUserProfile';
+import { formatRelativeTime } from '../utils/postUtils';
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Display name of a conversation peer
+const PeerName: React.FC<{ userPub: string }> = ({ userPub }) => {
+  const { profile } = useUserProfile(userPub);
+  return <>{profile?.username || userPub.substring(0, 16) + '...'}</>;
+};
+
+const ConversationList: React.FC = () => {
+  const navigate = useNavigate();
+  const { conversations, loading } = useConversations();
+  const [newPeer, setNewPeer] = useState('');
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    const peerPub = newPeer.trim();
+    if (peerPub) {
+      navigate(`/messages/${encodeURIComponent(peerPub)}`);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-4">
+        <h2 className="text-2xl font-bold mb-1">Messages</h2>
+        <p className="text-shogun-secondary text-sm">End-to-end encrypted conversations</p>
+      </div>
+
+      <form onSubmit={handleStart} className="mb-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="Public key of the user to message"
+            className="input input-bordered input-sm flex-1"
+            value={newPeer}
+            onChange={(e) => setNewPeer(e.target.value)}
+          />
+          <button type="submit" className="btn btn-shogun-primary btn-sm" disabled={!newPeer.trim()}>
+            New message
+          </button>
+        </div>
+      </form>
+
+      <div className="card content-card p-2">
+        {loading && conversations.length === 0 ? (
+          <div className="flex justify-center p-8">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="text-center text-shogun-secondary p-8">No conversations yet.</p>
+        ) : (
+          conversations.map((conversation) => (
+            <Link
+              key={conversation.peerPub}
+              to={`/messages/${encodeURIComponent(conversation.peerPub)}`}
+              className={`flex items-center justify-between p-4 rounded-lg transition-colors hover:bg-base-200 ${
+                conversation.unread ? 'bg-base-200 font-semibold' : ''
+              }`}
+            >
+              <span className="truncate">
+                <PeerName userPub={conversation.peerPub} />
+              </span>
+              <span className="flex items-center gap-2 text-sm text-shogun-secondary">
+                {formatRelativeTime(conversation.lastMessageAt)}
+                {conversation.unread && <span className="badge badge-primary badge-xs" title="Unread"></span>}
+              </span>
+            </Link>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ConversationThread: React.FC<{ peerPub: string }> = ({ peerPub }) => {
+  const { userPub } = useShogun();
+  const { messages, loading, peerReadAt, sendMessage } = useConversation(peerPub);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || text.length > MAX_MESSAGE_LENGTH) {
+      return;
+    }
+    setSending(true);
+    setError(null);
+    const result = await sendMessage(text.trim());
+    if (result.success) {
+      setText('');
+    } else {
+      setError(result.error || 'Failed to send message');
+    }
+    setSending(false);
+  };
+
+  // Read receipt goes under the last message the peer has seen
+  const lastSeenId = [...messages]
+    .reverse()
+    .find((message) => message.from === userPub && message.timestamp <= peerReadAt)?.id;
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-3 mb-4">
+        <Link to="/messages" className="btn btn-ghost btn-sm btn-circle" title="Back to messages">
+          ←
+        </Link>
+        <Link to={`/profile/${peerPub}`} className="text-xl font-bold hover:underline truncate">
+          <PeerName userPub={peerPub} />
+        </Link>
+      </div>
+
+      <div className="card content-card p-4 mb-4 min-h-[300px]">
+        {loading && messages.length === 0 ? (
+          <div className="flex justify-center p-8">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-center text-shogun-secondary p-8">No messages yet. Say hello!</p>
+        ) : (
+          messages.map((message) => {
+            const isMine = message.from === userPub;
+            return (
+              <div key={`${message.from}/${message.id}`} className={`chat ${isMine ? 'chat-end' : 'chat-start'}`}>
+                <div className={`chat-bubble whitespace-pre-wrap break-words ${isMine ? 'chat-bubble-primary' : ''}`}>
+                  {message.text}
+                </div>
+                <div className="chat-footer opacity-60 text-xs mt-1">
+                  {formatRelativeTime(message.timestamp)}
+                  {message.id === lastSeenId && ' · Seen'}
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-4">
+          <span>{error}</span>
+        </div>
+      )}
+
+      <form onSubmit={handleSend} className="flex gap-2">
+        <textarea
+          className="textarea textarea-bordered flex-1"
+          rows={2}
+          placeholder="Write an encrypted message..."
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              handleSend(e);
+            }
+          }}
+        />
+        <button type="submit" className="btn btn-shogun-primary" disabled={sending || !text.trim()}>
+          {sending ? <span className="loading loading-spinner loading-xs"></span> : 'Send'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+interface MessagesProps {
+  peerPub?: string;
+}
+
+export const Messages: React.FC<MessagesProps> = ({ peerPub }) => {
+  const { isLoggedIn } = useShogun();
+
+  if (!isLoggedIn) {
+    return (
+      <div className="card content-card p-8 text-center">
+        <p className="text-shogun-secondary mb-4">Please sign in to read your messages.</p>
+      </div>
+    );
+  }
+
+  return peerPub ? <ConversationThread peerPub={peerPub} /> : <ConversationList />;
+};
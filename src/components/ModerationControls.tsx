@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useFollow } from '../hooks/useFollow';
+import { useModeration } from '../hooks/useModeration';
+import { useUserProfile } from '../hooks/useUserProfile';
+import { formatDate } from '../utils/postUtils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MUTE_DURATIONS: { label: string; durationMs: number | null }[] = [
+  { label: '1 hour', durationMs: HOUR_MS },
+  { label: '24 hours', durationMs: 24 * HOUR_MS },
+  { label: '7 days', durationMs: 7 * 24 * HOUR_MS },
+  { label: 'Until I unmute', durationMs: null },
+];
+
+/**
+ * Block/mute menu shown on another user's profile
+ */
+export const ModerationMenu: React.FC<{ userPub: string }> = ({ userPub }) => {
+  const { block } = useFollow();
+  const { isBlocked, isMuted, unblock, mute, unmute } = useModeration();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setBusy(true);
+    setError(null);
+    const result = await action();
+    if (!result.success) {
+      setError(result.error || 'Action failed');
+    }
+    setBusy(false);
+  };
+
+  const handleBlock = () => {
+    if (window.confirm('Block this user? You will stop following each other.')) {
+      run(() => block(userPub));
+    }
+  };
+
+  return (
+    <div className="dropdown dropdown-end">
+      <button tabIndex={0} className="btn btn-sm btn-ghost" disabled={busy} title="More actions">
+        {busy ? <span className="loading loading-spinner loading-xs"></span> : '⋯'}
+      </button>
+      <ul tabIndex={0} className="dropdown-content menu p-2 shadow bg-base-100 rounded-box w-52 z-10">
+        {isMuted(userPub) ? (
+          <li>
+            <button onClick={() => run(() => unmute(userPub))}>Unmute</button>
+          </li>
+        ) : (
+          MUTE_DURATIONS.map(({ label, durationMs }) => (
+            <li key={label}>
+              <button onClick={() => run(() => mute(userPub, durationMs))}>Mute · {label}</button>
+            </li>
+          ))
+        )}
+        <li>
+          {isBlocked(userPub) ? (
+            <button onClick={() => run(() => unblock(userPub))}>Unblock</button>
+          ) : (
+            <button className="text-error" onClick={handleBlock}>
+              Block
+            </button>
+          )}
+        </li>
+        {error && <li className="text-error text-xs p-2">{error}</li>}
+      </ul>
+    </div>
+  );
+};
+
+// Row of the blocked/muted accounts list
+const ModeratedUser: React.FC<{ userPub: string; detail: string; action: string; onAction: () => void }> = ({
+  userPub,
+  detail,
+  action,
+  onAction,
+}) => {
+  const { profile } = useUserProfile(userPub);
+  return (
+    <div className="flex items-center justify-between p-3 rounded-lg hover:bg-base-200 transition-colors">
+      <div className="min-w-0">
+        <Link to={`/profile/${userPub}`} className="font-semibold hover:underline block truncate">
+          {profile?.username || userPub.substring(0, 16) + '...'}
+        </Link>
+        <p className="text-sm text-shogun-secondary">{detail}</p>
+      </div>
+      <button className="btn btn-sm btn-outline" onClick={onAction}>
+        {action}
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Blocked and muted accounts of the current user, shown on their own profile
+ */
+export const ModerationSettings: React.FC = () => {
+  const { blocked, muted, unblock, unmute } = useModeration();
+  const blockedPubs = Object.keys(blocked);
+  const mutedPubs = Object.keys(muted);
+
+  if (blockedPubs.length === 0 && mutedPubs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card content-card p-6 mb-6 w-full">
+      <h3 className="text-xl font-bold mb-4">Blocked & muted accounts</h3>
+      {blockedPubs.map((pub) => (
+        <ModeratedUser
+          key={`blocked-${pub}`}
+          userPub={pub}
+          detail={`Blocked since ${formatDate(blocked[pub].since)}`}
+          action="Unblock"
+          onAction={() => unblock(pub)}
+        />
+      ))}
+      {mutedPubs.map((pub) => (
+        <ModeratedUser
+          key={`muted-${pub}`}
+          userPub={pub}
+          detail={muted[pub].until ? `Muted until ${formatDate(muted[pub].until as number)}` : 'Muted'}
+          action="Unmute"
+          onAction={() => unmute(pub)}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useShogun } from 'shogun-button-react';
+import { useNotifications } from '../hooks/useNotifications';
+import { useUserProfile } from '../hooks/useUserProfile';
+import { formatRelativeTime } from '../utils/postUtils';
+import type { NotificationGroup } from '../utils/notifications';
+
+// Link to an actor's profile, by display name when available
+const ActorLink: React.FC<{ userPub: string }> = ({ userPub }) => {
+  const { profile } = useUserProfile(userPub);
+  return (
+    <Link to={`/profile/${userPub}`} className="font-semibold hover:underline">
+      {profile?.username || userPub.substring(0, 8) + '...'}
+    </Link>
+  );
+};
+
+const ACTION_TEXT: Record<NotificationGroup['type'], string> = {
+  like: 'liked your post',
+  repost: 'reposted your post',
+  reply: 'replied to your post',
+  follow: 'followed you',
+  followRequest: 'requested to follow you',
+  followAccept: 'accepted your follow request',
+  mention: 'mentioned you',
+};
+
+const ACTION_ICON: Record<NotificationGroup['type'], string> = {
+  like: '❤️',
+  repost: '🔁',
+  reply: '💬',
+  follow: '👤',
+  followRequest: '🔒',
+  followAccept: '✅',
+  mention: '@',
+};
+
+const NotificationItem: React.FC<{
+  group: NotificationGroup;
+  onRead: (group: NotificationGroup) => void;
+}> = ({ group, onRead }) => {
+  const [firstActor, ...otherActors] = group.actorPubs;
+
+  return (
+    <div
+      className={`flex items-start gap-3 p-4 rounded-lg transition-colors hover:bg-base-200 ${
+        group.unread ? 'bg-base-200' : ''
+      }`}
+      onClick={() => onRead(group)}
+    >
+      <span className="text-xl w-8 text-center">{ACTION_ICON[group.type]}</span>
+      <div className="flex-1 min-w-0">
+        <p className="break-words">
+          <ActorLink userPub={firstActor} />
+          {otherActors.length > 0 &&
+            ` and ${otherActors.length} ${otherActors.length === 1 ? 'other' : 'others'}`}{' '}
+          {ACTION_TEXT[group.type]}
+        </p>
+        <div className="flex items-center gap-2 text-sm text-shogun-secondary">
+          <span>{formatRelativeTime(group.timestamp)}</span>
+          {group.postId && (
+            <>
+              <span>·</span>
+              <Link to={`/post/${encodeURIComponent(group.postId)}`} className="hover:underline">
+                View post
+              </Link>
+            </>
+          )}
+          {group.type === 'followRequest' && (
+            <>
+              <span>·</span>
+              <Link to="/profile" className="hover:underline">
+                Review requests
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+      {group.unread && <span className="badge badge-primary badge-xs mt-2" title="Unread"></span>}
+    </div>
+  );
+};
+
+export const Notifications: React.FC = () => {
+  const { isLoggedIn } = useShogun();
+  const { groups, unreadCount, loading, markAsRead, markAllAsRead } = useNotifications();
+
+  if (!isLoggedIn) {
+    return (
+      <div className="card content-card p-8 text-center">
+        <p className="text-shogun-secondary mb-4">Please sign in to view your notifications.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-2xl font-bold mb-1">Notifications</h2>
+          <p className="text-shogun-secondary text-sm">
+            {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up'}
+          </p>
+        </div>
+        {unreadCount > 0 && (
+          <button className="btn btn-ghost btn-sm" onClick={markAllAsRead}>
+            Mark all as read
+          </button>
+        )}
+      </div>
+
+      <div className="card content-card p-2">
+        {loading && groups.length === 0 ? (
+          <div className="flex justify-center p-8">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-center text-shogun-secondary p-8">No notifications yet.</p>
+        ) : (
+          groups.map((group) => <NotificationItem key={group.key} group={group} onRead={markAsRead} />)
+        )}
+      </div>
+    </div>
+  );
+};
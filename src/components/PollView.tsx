@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { useShogun } from 'shogun-button-react';
+import { usePoll } from '../hooks/usePoll';
+import type { Poll } from '../utils/polls';
+
+// "3 hours left", "2 days left"
+const formatTimeLeft = (closesAt: number): string => {
+  const minutes = Math.max(1, Math.round((closesAt - Date.now()) / 60000));
+  if (minutes < 60) {
+    return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'} left`;
+  }
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) {
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'} left`;
+  }
+  const days = Math.round(hours / 24);
+  return `${days} ${days === 1 ? 'day' : 'days'} left`;
+};
+
+/**
+ * Poll attached to a post: options to vote on, then the live results
+ */
+export const PollView: React.FC<{ postId: string; poll: Poll }> = ({ postId, poll }) => {
+  const { isLoggedIn } = useShogun();
+  const { tally, myVote, closed, showResults, vote } = usePoll(postId, poll);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [isVoting, setIsVoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (index: number) => {
+    if (poll.multiple) {
+      setSelected((prev) => (prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index]));
+    } else {
+      setSelected([index]);
+    }
+  };
+
+  const handleVote = async () => {
+    setIsVoting(true);
+    setError(null);
+    const result = await vote(selected);
+    if (!result.success) {
+      setError(result.error || 'Failed to vote');
+    }
+    setIsVoting(false);
+  };
+
+  const footer = (
+    <p className="text-xs text-shogun-secondary mt-2">
+      {tally.voters} {tally.voters === 1 ? 'vote' : 'votes'} · {closed ? 'Closed' : formatTimeLeft(poll.closesAt)}
+      {poll.multiple && ' · Multiple choice'}
+    </p>
+  );
+
+  if (showResults) {
+    return (
+      <div className="mb-4 space-y-2">
+        {poll.options.map((option, index) => {
+          const percent = tally.voters > 0 ? Math.round((tally.counts[index] / tally.voters) * 100) : 0;
+          const isMine = !!myVote?.choices.includes(index);
+          return (
+            <div key={index} className="relative rounded-lg bg-base-200 overflow-hidden">
+              <div
+                className={`absolute inset-y-0 left-0 ${isMine ? 'bg-shogun-primary/30' : 'bg-base-300'}`}
+                style={{ width: `${percent}%` }}
+              />
+              <div className="relative flex justify-between px-3 py-2 text-sm">
+                <span className="break-words">
+                  {option}
+                  {isMine && ' ✓'}
+                </span>
+                <span className="font-semibold ml-2">{percent}%</span>
+              </div>
+            </div>
+          );
+        })}
+        {footer}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      {poll.options.map((option, index) => (
+        <label key={index} className="flex items-center gap-3 px-3 py-2 rounded-lg border border-base-300 cursor-pointer hover:bg-base-200">
+          <input
+            type={poll.multiple ? 'checkbox' : 'radio'}
+            className={poll.multiple ? 'checkbox checkbox-sm' : 'radio radio-sm'}
+            checked={selected.includes(index)}
+            onChange={() => toggle(index)}
+            disabled={!isLoggedIn || isVoting}
+          />
+          <span className="text-sm break-words">{option}</span>
+        </label>
+      ))}
+      {error && <p className="text-xs text-error">{error}</p>}
+      <div className="flex items-center justify-between">
+        {footer}
+        {isLoggedIn && (
+          <button
+            className="btn btn-shogun-primary btn-xs"
+            onClick={handleVote}
+            disabled={selected.length === 0 || isVoting}
+          >
+            {isVoting ? <span className="loading loading-spinner loading-xs"></span> : 'Vote'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -5,19 +5,46 @@ import { usePostInteractions } from '../hooks/usePostInteractions';
 import { useUserProfile } from '../hooks/useUserProfile';
 import { useReplies } from '../hooks/useReplies';
 import { useSocialProtocol } from '../hooks/useSocialProtocol';
-import { formatRelativeTime } from '../utils/postUtils';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences';
+import { useBookmarks } from '../hooks/useBookmarks';
+import { usePins } from '../hooks/usePinnedPosts';
+import { usePostRevisions } from '../hooks/usePostRevisions';
+import { RevisionHistory } from './RevisionHistory';
+import { PostContent } from './PostContent';
+import { PostComposer } from './PostComposer';
+import { QuotedPost } from './QuotedPost';
+import { PollView } from './PollView';
+import { ReactionBar } from './ReactionBar';
+import {
+  directReplyMentions,
+  formatRelativeTime,
+  validatePost,
+  MAX_POST_LENGTH,
+  VISIBILITY_DETAILS,
+} from '../utils/postUtils';
 import type { Post } from '../utils/postUtils';
 
 interface PostCardProps {
   post: Post;
   onReply?: () => void;
   onDelete?: () => void;
+  pinned?: boolean; // Shown in the pinned section of a profile
+  showReplies?: boolean; // False when the replies are shown by a conversation tree
+  highlighted?: boolean; // Focused post of a conversation
 }
 
-export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) => {
+export const PostCard: React.FC<PostCardProps> = ({
+  post,
+  onReply,
+  onDelete,
+  pinned = false,
+  showReplies = true,
+  highlighted = false,
+}) => {
   const { userPub: currentUserPub } = useShogun();
   const location = useLocation();
-  const { deletePost, getPostTags, getPostAuthor } = useSocialProtocol();
+  const { deletePost, editPost, getPostTags, getPostAuthor } = useSocialProtocol();
   
   // Use authorProfile from post if available, otherwise try to load it using bidirectional reference
   const { profile: loadedProfile, loading: profileLoading } = useUserProfile(
@@ -51,6 +78,11 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
     getRepostCount,
   } = usePostInteractions();
   const { publishPost } = useSocialProtocol();
+  const { url: mediaUrl, loading: mediaLoading } = useMediaUrl(post.media);
+  // Edited posts show their latest revision
+  const { revisions, latest, isEdited } = usePostRevisions(post.id, post.author);
+  const content = latest ? latest.text : post.content;
+  const mentions = latest ? latest.mentions : post.mentions;
   
   // Get tags for this post using bidirectional references
   const [postTags, setPostTags] = useState<Array<{ name: string; slug: string }>>([]);
@@ -73,11 +105,35 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
 
   const [isLiking, setIsLiking] = useState(false);
   const [isReposting, setIsReposting] = useState(false);
+  const { isBookmarked, bookmark, unbookmark } = useBookmarks();
+  const [isBookmarking, setIsBookmarking] = useState(false);
+  const bookmarked = isBookmarked(post.id);
+  // Pins are managed by the author only
+  const { isPinned, pin, unpin } = usePins(post.author === currentUserPub ? currentUserPub : null);
+  const [isPinning, setIsPinning] = useState(false);
+  const isPinnedPost = isPinned(post.id);
   const [showReplyForm, setShowReplyForm] = useState(false);
+  const [showQuoteForm, setShowQuoteForm] = useState(false);
   const [replyContent, setReplyContent] = useState('');
   const [isReplying, setIsReplying] = useState(false);
+  const [replyError, setReplyError] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Posts collapsed by a content filter stay hidden until revealed
+  const [showFiltered, setShowFiltered] = useState(false);
+  const isCollapsed = !!post.collapsedBy?.length && !showFiltered;
+  // Content warnings and sensitive media, unless the user always expands them
+  const { preferences } = useDisplayPreferences();
+  const [showWarned, setShowWarned] = useState(false);
+  const [showSensitive, setShowSensitive] = useState(false);
+  const isWarned = !!post.contentWarning && !preferences.expandContentWarnings && !showWarned;
+  const isHidden = isCollapsed || isWarned;
+  const isMediaBlurred = !!post.sensitive && !preferences.showSensitiveMedia && !showSensitive;
 
   const liked = isLiked(post);
   const reposted = isReposted(post);
@@ -130,14 +186,36 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
     }
   };
 
+  const handleBookmark = async () => {
+    if (isBookmarking) return;
+    setIsBookmarking(true);
+    try {
+      await (bookmarked ? unbookmark(post.id) : bookmark(post.id));
+    } finally {
+      setIsBookmarking(false);
+    }
+  };
+
+  const replyVisibility = post.visibility || 'public';
+
+  // Direct replies start addressed to everyone in the conversation
+  const toggleReplyForm = () => {
+    if (!showReplyForm && replyVisibility === 'direct' && !replyContent) {
+      setReplyContent(directReplyMentions(post, currentUserPub));
+    }
+    setShowReplyForm(!showReplyForm);
+  };
+
   const handleReply = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!replyContent.trim() || isReplying) return;
 
     setIsReplying(true);
+    setReplyError(null);
     console.log('Replying to post:', post.id, 'with content:', replyContent);
-    // Use publishPost with replyToId for content-addressed replies
-    const result = await publishPost(replyContent, null, post.id);
+    // Use publishPost with replyToId for content-addressed replies; a reply
+    // keeps the visibility of the post, so a private conversation stays private
+    const result = await publishPost(replyContent, null, post.id, replyVisibility);
     setIsReplying(false);
 
     if (result.success) {
@@ -152,6 +230,7 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
       }, 500);
     } else {
       console.error('Failed to create reply:', result.error);
+      setReplyError(result.error || 'Failed to reply');
     }
   };
 
@@ -174,8 +253,44 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
     }
   };
 
+  const handlePin = async () => {
+    if (isPinning || !isOwnPost) return;
+
+    setIsPinning(true);
+    const result = await (isPinnedPost ? unpin(post.id) : pin(post.id));
+    setIsPinning(false);
+
+    if (!result.success) {
+      console.error('Failed to update pinned posts:', result.error);
+      alert(result.error || 'Failed to update pinned posts');
+    }
+  };
+
+  const handleEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSavingEdit || !isOwnPost) return;
+
+    const validation = validatePost(editContent);
+    if (!validation.valid) {
+      setEditError(validation.error || 'Invalid post');
+      return;
+    }
+
+    setIsSavingEdit(true);
+    setEditError(null);
+    const result = await editPost(post.id, editContent);
+    setIsSavingEdit(false);
+
+    if (result.success) {
+      setIsEditing(false);
+    } else {
+      console.error('Failed to edit post:', result.error);
+      setEditError(result.error || 'Failed to edit post');
+    }
+  };
+
   return (
-    <div className="card content-card p-6 mb-4 w-full">
+    <div className={`card content-card p-6 mb-4 w-full ${highlighted ? 'ring-2 ring-shogun-primary' : ''}`}>
       <div className="flex gap-4">
         {/* Avatar */}
         <div className="avatar placeholder">
@@ -244,15 +359,71 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
                   />
                 </svg>
               </Link>
+              {post.visibility && post.visibility !== 'public' && (
+                <span
+                  className="text-sm"
+                  title={`${VISIBILITY_DETAILS[post.visibility].label}: ${VISIBILITY_DETAILS[post.visibility].description}`}
+                >
+                  {VISIBILITY_DETAILS[post.visibility].icon}
+                </span>
+              )}
               {isOwnPost && (
                 <span className="badge badge-sm badge-shogun-primary">You</span>
               )}
+              {isEdited && (
+                <button
+                  className="badge badge-sm badge-ghost hover:badge-neutral"
+                  onClick={() => setShowHistory(!showHistory)}
+                  title="Show edit history"
+                >
+                  edited
+                </button>
+              )}
               {isRepostedPost && (
                 <span className="badge badge-sm badge-success">Reposted</span>
               )}
+              {pinned && (
+                <span className="badge badge-sm badge-warning">📌 Pinned</span>
+              )}
             </div>
             {isOwnPost && (
-              <div className="relative">
+              <div className="relative flex items-center gap-1">
+                {!showDeleteConfirm && !isEditing && (
+                  <button
+                    className={`btn btn-ghost btn-xs ${isPinnedPost ? 'text-warning' : ''}`}
+                    onClick={handlePin}
+                    disabled={isPinning}
+                    title={isPinnedPost ? 'Unpin from profile' : 'Pin to profile'}
+                  >
+                    {isPinning ? <span className="loading loading-spinner loading-xs"></span> : '📌'}
+                  </button>
+                )}
+                {!showDeleteConfirm && !isEditing && (
+                  <button
+                    className="btn btn-ghost btn-xs"
+                    onClick={() => {
+                      setEditContent(content);
+                      setEditError(null);
+                      setIsEditing(true);
+                    }}
+                    title="Edit post"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="h-4 w-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                      />
+                    </svg>
+                  </button>
+                )}
                 {!showDeleteConfirm ? (
                   <button
                     className="btn btn-ghost btn-xs text-error hover:bg-error/20"
@@ -302,9 +473,82 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
           </div>
 
           {/* Post content */}
-          <div className="mb-4 whitespace-pre-wrap break-words">
-            {post.content}
-          </div>
+          {isEditing ? (
+            <form onSubmit={handleEdit} className="mb-4">
+              <textarea
+                className="textarea textarea-bordered w-full h-24 resize-none mb-2"
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                disabled={isSavingEdit}
+                maxLength={MAX_POST_LENGTH * 2}
+              />
+              {editError && <p className="text-xs text-error mb-2">{editError}</p>}
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  className="btn btn-ghost btn-sm"
+                  onClick={() => setIsEditing(false)}
+                  disabled={isSavingEdit}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="btn btn-shogun-primary btn-sm"
+                  disabled={!editContent.trim() || isSavingEdit}
+                >
+                  {isSavingEdit ? (
+                    <>
+                      <span className="loading loading-spinner loading-xs"></span>
+                      Saving...
+                    </>
+                  ) : (
+                    'Save'
+                  )}
+                </button>
+              </div>
+            </form>
+          ) : isCollapsed ? (
+            <div className="mb-4 p-3 rounded-lg bg-base-200 flex items-center justify-between gap-2">
+              <span className="text-sm text-shogun-secondary break-words">
+                Filtered: {post.collapsedBy?.join(', ')}
+              </span>
+              <button className="btn btn-ghost btn-xs" onClick={() => setShowFiltered(true)}>
+                Show anyway
+              </button>
+            </div>
+          ) : (
+            <>
+              {post.contentWarning && (
+                <div className="mb-4 p-3 rounded-lg bg-base-200 flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium break-words">⚠️ {post.contentWarning}</span>
+                  {!preferences.expandContentWarnings && (
+                    <button className="btn btn-ghost btn-xs" onClick={() => setShowWarned(!showWarned)}>
+                      {showWarned ? 'Show less' : 'Show more'}
+                    </button>
+                  )}
+                </div>
+              )}
+              {!isWarned && (
+                <div className="mb-4 whitespace-pre-wrap break-words">
+                  <PostContent text={content} mentions={mentions} />
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Poll */}
+          {post.poll && !isHidden && !isEditing && <PollView postId={post.id} poll={post.poll} />}
+
+          {/* Quoted post */}
+          {post.quoteOf && !isHidden && <QuotedPost postId={post.quoteOf} />}
+
+          {/* Edit history */}
+          {showHistory && isEdited && (
+            <div className="mb-4">
+              <RevisionHistory revisions={revisions} />
+            </div>
+          )}
 
           {/* Post Tags (from bidirectional references) */}
           {postTags.length > 0 && (
@@ -322,19 +566,30 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
           )}
 
           {/* Media/Image */}
-          {post.media && (
-            <div className="mb-4">
+          {post.media && mediaLoading && !isHidden && (
+            <div className="mb-4 flex justify-center items-center h-32 bg-base-200 rounded-lg">
+              <span className="loading loading-spinner loading-md"></span>
+            </div>
+          )}
+          {mediaUrl && !isHidden && (
+            <div className="mb-4 relative overflow-hidden rounded-lg">
               <img
-                src={post.media.startsWith('http') || post.media.startsWith('data:') 
-                  ? post.media 
-                  : `https://ipfs.io/ipfs/${post.media}`}
+                src={mediaUrl}
                 alt="Post media"
-                className="max-w-full rounded-lg object-contain max-h-96 w-full"
+                className={`max-w-full rounded-lg object-contain max-h-96 w-full ${isMediaBlurred ? 'blur-2xl' : ''}`}
                 onError={(e) => {
                   // Hide image if it fails to load
                   (e.target as HTMLImageElement).style.display = 'none';
                 }}
               />
+              {isMediaBlurred && (
+                <button
+                  className="absolute inset-0 flex items-center justify-center bg-base-300/40 text-sm font-semibold"
+                  onClick={() => setShowSensitive(true)}
+                >
+                  Sensitive content · Click to show
+                </button>
+              )}
             </div>
           )}
 
@@ -345,12 +600,15 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
             </div>
           )}
 
+          {/* Emoji reactions */}
+          <ReactionBar postId={post.id} />
+
           {/* Actions */}
           <div className="flex items-center gap-6">
             {/* Reply */}
             <button
               className="btn btn-ghost btn-sm gap-2"
-              onClick={() => setShowReplyForm(!showReplyForm)}
+              onClick={toggleReplyForm}
             >
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -456,8 +714,76 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
                 {repostCount > 0 && repostCount}
               </button>
             )}
+
+            {/* Quote */}
+            <button
+              className={`btn btn-ghost btn-sm gap-2 ${showQuoteForm ? 'text-primary' : ''}`}
+              onClick={() => setShowQuoteForm(!showQuoteForm)}
+              title="Quote this post"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z"
+                />
+              </svg>
+              Quote
+            </button>
+
+            {/* Bookmark (private) */}
+            {currentUserPub && (
+              <button
+                className={`btn btn-ghost btn-sm gap-2 ${bookmarked ? 'text-warning' : ''}`}
+                onClick={handleBookmark}
+                disabled={isBookmarking}
+                title={bookmarked ? 'Remove from bookmarks' : 'Bookmark this post'}
+              >
+                {isBookmarking ? (
+                  <span className="loading loading-spinner loading-xs"></span>
+                ) : (
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-5 w-5"
+                    fill={bookmarked ? 'currentColor' : 'none'}
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+                    />
+                  </svg>
+                )}
+              </button>
+            )}
           </div>
 
+          {/* Quote form */}
+          {showQuoteForm && (
+            <div className="mt-4 pt-4 border-t border-base-300">
+              <PostComposer
+                quoteOf={post.id}
+                isModal
+                onPostCreated={() => {
+                  setShowQuoteForm(false);
+                  if (onReply) {
+                    setTimeout(() => onReply(), 500);
+                  }
+                }}
+              />
+            </div>
+          )}
+
           {/* Reply form */}
           {showReplyForm && (
             <form onSubmit={handleReply} className="mt-4 pt-4 border-t border-base-300">
@@ -468,6 +794,13 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
                 onChange={(e) => setReplyContent(e.target.value)}
                 disabled={isReplying}
               />
+              {replyVisibility !== 'public' && (
+                <p className="text-xs text-shogun-secondary mb-2">
+                  {VISIBILITY_DETAILS[replyVisibility].icon} {VISIBILITY_DETAILS[replyVisibility].label} reply:{' '}
+                  {VISIBILITY_DETAILS[replyVisibility].description.toLowerCase()}
+                </p>
+              )}
+              {replyError && <p className="text-xs text-error mb-2">{replyError}</p>}
               <div className="flex justify-end gap-2">
                 <button
                   type="button"
@@ -498,7 +831,7 @@ export const PostCard: React.FC<PostCardProps> = ({ post, onReply, onDelete }) =
           )}
 
           {/* Replies - Show for all posts, with depth limit to avoid infinite nesting */}
-          <RepliesSection postId={post.id} onReply={onReply} maxDepth={3} currentDepth={0} />
+          {showReplies && <RepliesSection postId={post.id} onReply={onReply} maxDepth={3} currentDepth={0} />}
         </div>
       </div>
     </div>
@@ -1,24 +1,110 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { useShogun } from 'shogun-button-react';
 import { useSocialProtocol } from '../hooks/useSocialProtocol';
-import { MAX_POST_LENGTH, validatePost } from '../utils/postUtils';
+import { useDraft } from '../hooks/useDraft';
+import { useScheduledPosts } from '../hooks/useScheduledPosts';
+import { toDateTimeLocal } from '../utils/scheduledPosts';
+import type { PostDraft } from '../utils/socialProtocol';
+import { QuotedPost } from './QuotedPost';
+import {
+  MAX_POLL_OPTIONS,
+  MAX_POLL_OPTION_LENGTH,
+  MIN_POLL_OPTIONS,
+  POLL_DURATIONS,
+  validatePoll,
+  type NewPoll,
+} from '../utils/polls';
+import {
+  MAX_CONTENT_WARNING_LENGTH,
+  MAX_POST_LENGTH,
+  MAX_THREAD_POSTS,
+  POST_VISIBILITIES,
+  VISIBILITY_DETAILS,
+  validatePost,
+  validateThread,
+  type PostVisibility,
+} from '../utils/postUtils';
+
+const EMPTY_POLL: NewPoll = { options: ['', ''], multiple: false, durationMs: POLL_DURATIONS[1].durationMs };
+const DRAFT_SAVE_DELAY_MS = 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Comparable form of a draft (key order independent)
+const draftSnapshot = (draft: Omit<PostDraft, 'updatedAt'>): string =>
+  JSON.stringify([draft.text, draft.visibility, draft.contentWarning, draft.poll, draft.thread]);
 
 interface PostComposerProps {
   replyToId?: string | null;
+  quoteOf?: string | null; // Hash of the post being quoted
   onPostCreated?: () => void;
   isModal?: boolean; // Se true, rimuove lo stile della card
 }
 
 export const PostComposer: React.FC<PostComposerProps> = ({
   replyToId = null,
+  quoteOf = null,
   onPostCreated,
   isModal = false,
 }) => {
   const { isLoggedIn, userPub } = useShogun();
-  const { publishPost, isReady } = useSocialProtocol();
+  const { publishPost, publishThread, isReady } = useSocialProtocol();
   const [content, setContent] = useState('');
   const [mediaFile, setMediaFile] = useState<File | null>(null);
   const [mediaPreview, setMediaPreview] = useState<string | null>(null);
+  const [visibility, setVisibility] = useState<PostVisibility>('public');
+  const [poll, setPoll] = useState<NewPoll | null>(null);
+  const [contentWarning, setContentWarning] = useState<string | null>(null); // null when the field is closed
+  const [sensitive, setSensitive] = useState(false);
+  const [threadParts, setThreadParts] = useState<string[]>([]); // Posts after the first one of a thread
+  const [scheduleAt, setScheduleAt] = useState<string | null>(null); // datetime-local value, null when not scheduling
+  const { schedule } = useScheduledPosts();
+  const [wasScheduled, setWasScheduled] = useState(false);
+
+  // Drafts are kept per context, so a reply draft doesn't replace the new post draft
+  const draftKey = replyToId ? `reply:${replyToId}` : quoteOf ? `quote:${quoteOf}` : 'new';
+  const { draft, loaded: draftLoaded, saveDraft, clearDraft } = useDraft(draftKey);
+  const [draftRestored, setDraftRestored] = useState(false);
+  const savedDraftRef = useRef<string | null>(null); // Last saved draft (JSON), to skip unchanged saves
+
+  // Restore the saved draft into an empty composer
+  useEffect(() => {
+    if (!draftLoaded) {
+      return;
+    }
+    if (draft && !content) {
+      setContent(draft.text);
+      setVisibility(draft.visibility);
+      setContentWarning(draft.contentWarning);
+      setPoll(draft.poll);
+      setThreadParts(draft.thread);
+      setDraftRestored(true);
+    }
+    savedDraftRef.current = draft ? draftSnapshot(draft) : null;
+  }, [draftLoaded]);
+
+  // Autosave (encrypted) a moment after the user stops typing
+  useEffect(() => {
+    if (!draftLoaded) {
+      return;
+    }
+    const isEmpty = !content.trim() && !contentWarning && !poll && threadParts.every((part) => !part.trim());
+    const newDraft = { text: content, visibility, contentWarning, poll, thread: threadParts };
+    const current = isEmpty ? null : draftSnapshot(newDraft);
+    if (current === savedDraftRef.current) {
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      savedDraftRef.current = current;
+      if (isEmpty) {
+        clearDraft();
+      } else {
+        saveDraft(newDraft);
+      }
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [draftLoaded, content, visibility, contentWarning, poll, threadParts, saveDraft, clearDraft]);
+
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -32,26 +118,71 @@ export const PostComposer: React.FC<PostComposerProps> = ({
     setError(null);
     setSuccessMessage(null);
 
-    const validation = validatePost(content);
+    const isThread = threadParts.length > 0;
+    const validation = isThread ? validateThread([content, ...threadParts]) : validatePost(content);
     if (!validation.valid) {
       setError(validation.error || 'Invalid post');
       return;
     }
+    const pollError = poll && validatePoll(poll);
+    if (pollError) {
+      setError(pollError);
+      return;
+    }
+
+    if (scheduleAt !== null) {
+      if (mediaFile) {
+        setError('Scheduled posts cannot include images');
+        return;
+      }
+      if (isThread) {
+        setError('Threads cannot be scheduled');
+        return;
+      }
+      const result = schedule({
+        text: content,
+        visibility,
+        replyToId,
+        quoteOf,
+        poll,
+        contentWarning,
+        scheduledAt: new Date(scheduleAt).getTime(),
+      });
+      if (result.success) {
+        resetComposer();
+        setWasScheduled(true);
+        setTimeout(() => setWasScheduled(false), 5000);
+        if (onPostCreated) {
+          onPostCreated();
+        }
+      } else {
+        setError(result.error || 'Failed to schedule post');
+      }
+      return;
+    }
 
     setIsSubmitting(true);
     console.log('Submitting post...');
     
     // Convert File to Blob if mediaFile exists
     const mediaBlob = mediaFile ? await fileToBlob(mediaFile) : null;
-    const result = await publishPost(content, mediaBlob, replyToId);
+    const result = isThread
+      ? await publishThread(
+          [content, ...threadParts],
+          mediaBlob,
+          replyToId,
+          visibility,
+          quoteOf,
+          poll,
+          contentWarning,
+          sensitive
+        )
+      : await publishPost(content, mediaBlob, replyToId, visibility, quoteOf, poll, contentWarning, sensitive);
     setIsSubmitting(false);
 
     if (result.success) {
       console.log('Post created successfully');
-      setContent('');
-      setMediaFile(null);
-      setMediaPreview(null);
-      setError(null);
+      resetComposer();
       setSuccessMessage('Post created successfully!');
       setTimeout(() => setSuccessMessage(null), 3000);
       
@@ -64,6 +195,22 @@ export const PostComposer: React.FC<PostComposerProps> = ({
     }
   };
 
+  // Clear the form and its draft (after publishing, scheduling or discarding)
+  const resetComposer = () => {
+    setContent('');
+    setMediaFile(null);
+    setMediaPreview(null);
+    setPoll(null);
+    setContentWarning(null);
+    setSensitive(false);
+    setThreadParts([]);
+    setScheduleAt(null);
+    setError(null);
+    setDraftRestored(false);
+    savedDraftRef.current = null;
+    clearDraft();
+  };
+
   const remainingChars = MAX_POST_LENGTH - content.length;
   const isOverLimit = content.length > MAX_POST_LENGTH;
   const charPercentage = (content.length / MAX_POST_LENGTH) * 100;
@@ -105,6 +252,11 @@ export const PostComposer: React.FC<PostComposerProps> = ({
   const handleRemoveMedia = () => {
     setMediaFile(null);
     setMediaPreview(null);
+    setSensitive(false);
+  };
+
+  const updatePollOption = (index: number, value: string) => {
+    setPoll((prev) => prev && { ...prev, options: prev.options.map((option, i) => (i === index ? value : option)) });
   };
 
   return (
@@ -123,10 +275,34 @@ export const PostComposer: React.FC<PostComposerProps> = ({
           <div className="flex-1">
             <label className="block mb-2">
               <span className="text-lg font-semibold text-base-content">
-                {replyToId ? "Reply to post" : "What's happening?"}
+                {replyToId ? 'Reply to post' : quoteOf ? 'Quote post' : "What's happening?"}
               </span>
             </label>
+
+            {draftRestored && (
+              <div className="mb-2 flex items-center gap-2 text-xs text-shogun-secondary">
+                <span>Draft restored</span>
+                <button type="button" className="link" onClick={resetComposer} disabled={isSubmitting}>
+                  Discard
+                </button>
+              </div>
+            )}
             
+            {contentWarning !== null && (
+              <input
+                type="text"
+                className="input input-bordered input-sm w-full mb-2"
+                placeholder="Content warning (e.g. spoilers for the finale)"
+                value={contentWarning}
+                onChange={(e) => setContentWarning(e.target.value)}
+                maxLength={MAX_CONTENT_WARNING_LENGTH}
+                disabled={isSubmitting}
+              />
+            )}
+
+            {threadParts.length > 0 && (
+              <div className="mb-1 text-xs text-shogun-secondary">1/{threadParts.length + 1}</div>
+            )}
             <textarea
               className="textarea textarea-bordered w-full h-32 resize-none text-base focus:textarea-shogun-primary transition-all duration-200 focus:ring-2 focus:ring-shogun-primary/50"
               placeholder={
@@ -140,6 +316,76 @@ export const PostComposer: React.FC<PostComposerProps> = ({
               maxLength={MAX_POST_LENGTH * 2}
             />
 
+            {quoteOf && (
+              <div className="mt-3">
+                <QuotedPost postId={quoteOf} />
+              </div>
+            )}
+
+            {/* Poll editor */}
+            {poll && (
+              <div className="mt-3 p-3 rounded-lg border border-base-300 space-y-2">
+                {poll.options.map((option, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      className="input input-bordered input-sm flex-1"
+                      placeholder={`Option ${index + 1}`}
+                      value={option}
+                      onChange={(e) => updatePollOption(index, e.target.value)}
+                      maxLength={MAX_POLL_OPTION_LENGTH}
+                      disabled={isSubmitting}
+                    />
+                    {poll.options.length > MIN_POLL_OPTIONS && (
+                      <button
+                        type="button"
+                        className="btn btn-ghost btn-xs"
+                        onClick={() => setPoll({ ...poll, options: poll.options.filter((_, i) => i !== index) })}
+                        disabled={isSubmitting}
+                        title="Remove option"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <div className="flex flex-wrap items-center gap-3">
+                  {poll.options.length < MAX_POLL_OPTIONS && (
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => setPoll({ ...poll, options: [...poll.options, ''] })}
+                      disabled={isSubmitting}
+                    >
+                      + Add option
+                    </button>
+                  )}
+                  <label className="label cursor-pointer gap-2">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={poll.multiple}
+                      onChange={(e) => setPoll({ ...poll, multiple: e.target.checked })}
+                      disabled={isSubmitting}
+                    />
+                    <span className="label-text">Multiple choice</span>
+                  </label>
+                  <select
+                    className="select select-bordered select-xs"
+                    value={poll.durationMs}
+                    onChange={(e) => setPoll({ ...poll, durationMs: Number(e.target.value) })}
+                    disabled={isSubmitting}
+                  >
+                    {POLL_DURATIONS.map(({ label, durationMs }) => (
+                      <option key={durationMs} value={durationMs}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
             {/* Media Preview */}
             {mediaPreview && (
               <div className="mt-3 relative">
@@ -147,7 +393,7 @@ export const PostComposer: React.FC<PostComposerProps> = ({
                   <img
                     src={mediaPreview}
                     alt="Preview"
-                    className="max-w-full max-h-64 rounded-lg object-contain"
+                    className={`max-w-full max-h-64 rounded-lg object-contain ${sensitive ? 'blur-md' : ''}`}
                   />
                   <button
                     type="button"
@@ -171,11 +417,54 @@ export const PostComposer: React.FC<PostComposerProps> = ({
                     </svg>
                   </button>
                 </div>
+                <label className="label cursor-pointer justify-start gap-2">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    checked={sensitive}
+                    onChange={(e) => setSensitive(e.target.checked)}
+                    disabled={isSubmitting}
+                  />
+                  <span className="label-text">Mark media as sensitive</span>
+                </label>
               </div>
             )}
 
-            {/* File Input */}
-            <div className="mt-3">
+            {/* Following posts of a thread */}
+            {threadParts.map((part, index) => (
+              <div key={index} className="mt-3">
+                <div className="flex items-center justify-between mb-1 text-xs text-shogun-secondary">
+                  <span>
+                    {index + 2}/{threadParts.length + 1}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className={part.length > MAX_POST_LENGTH ? 'text-error' : ''}>
+                      {MAX_POST_LENGTH - part.length}
+                    </span>
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => setThreadParts(threadParts.filter((_, i) => i !== index))}
+                      disabled={isSubmitting}
+                      title="Remove from thread"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+                <textarea
+                  className="textarea textarea-bordered w-full h-24 resize-none text-base"
+                  placeholder="Continue the thread..."
+                  value={part}
+                  onChange={(e) => setThreadParts(threadParts.map((p, i) => (i === index ? e.target.value : p)))}
+                  disabled={isSubmitting}
+                  maxLength={MAX_POST_LENGTH * 2}
+                />
+              </div>
+            ))}
+
+            {/* File Input and visibility */}
+            <div className="mt-3 flex items-center gap-2">
               <label className="cursor-pointer">
                 <input
                   type="file"
@@ -202,7 +491,72 @@ export const PostComposer: React.FC<PostComposerProps> = ({
                   {mediaFile ? 'Change Image' : 'Add Image'}
                 </span>
               </label>
+              <button
+                type="button"
+                className={`btn btn-ghost btn-sm ${poll ? 'btn-active' : ''}`}
+                onClick={() => setPoll(poll ? null : EMPTY_POLL)}
+                disabled={isSubmitting}
+              >
+                {poll ? 'Remove Poll' : 'Add Poll'}
+              </button>
+              <button
+                type="button"
+                className="btn btn-ghost btn-sm"
+                onClick={() => setThreadParts([...threadParts, ''])}
+                disabled={isSubmitting || threadParts.length + 1 >= MAX_THREAD_POSTS}
+                title="Add a post to the thread"
+              >
+                + Thread
+              </button>
+              <button
+                type="button"
+                className={`btn btn-ghost btn-sm ${contentWarning !== null ? 'btn-active' : ''}`}
+                onClick={() => setContentWarning(contentWarning !== null ? null : '')}
+                disabled={isSubmitting}
+                title="Hide the post behind a content warning"
+              >
+                CW
+              </button>
+              <button
+                type="button"
+                className={`btn btn-ghost btn-sm ${scheduleAt !== null ? 'btn-active' : ''}`}
+                onClick={() => setScheduleAt(scheduleAt !== null ? null : toDateTimeLocal(Date.now() + HOUR_MS))}
+                disabled={isSubmitting}
+                title="Publish the post later from this device"
+              >
+                Schedule
+              </button>
+              <select
+                className="select select-bordered select-sm"
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as PostVisibility)}
+                disabled={isSubmitting}
+                title={VISIBILITY_DETAILS[visibility].description}
+              >
+                {POST_VISIBILITIES.map((option) => (
+                  <option key={option} value={option}>
+                    {VISIBILITY_DETAILS[option].icon} {VISIBILITY_DETAILS[option].label}
+                  </option>
+                ))}
+              </select>
             </div>
+
+            {scheduleAt !== null && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                <span>Publish at</span>
+                <input
+                  type="datetime-local"
+                  className="input input-bordered input-sm"
+                  value={scheduleAt}
+                  min={toDateTimeLocal(Date.now())}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <span className="text-xs text-shogun-secondary">
+                  Scheduled posts are published by this device while the app is open.
+                </span>
+              </div>
+            )}
             
             {/* Character counter with progress bar */}
             <div className="mt-3 space-y-2">
@@ -227,6 +581,14 @@ export const PostComposer: React.FC<PostComposerProps> = ({
                       <span>{error}</span>
                     </div>
                   )}
+                  {wasScheduled && !error && (
+                    <div className="flex items-center gap-1 text-success animate-fade-in">
+                      <span>Post scheduled.</span>
+                      <Link to="/scheduled" className="link">
+                        View queue
+                      </Link>
+                    </div>
+                  )}
                   {successMessage && !error && (
                     <div className="flex items-center gap-1 text-success animate-fade-in">
                       <svg
@@ -302,7 +664,15 @@ export const PostComposer: React.FC<PostComposerProps> = ({
                             d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
                           />
                         </svg>
-                        <span>{replyToId ? 'Reply' : 'Post'}</span>
+                        <span>
+                          {scheduleAt !== null
+                            ? 'Schedule'
+                            : threadParts.length > 0
+                            ? 'Post thread'
+                            : replyToId
+                            ? 'Reply'
+                            : 'Post'}
+                        </span>
                       </>
                     )}
                   </button>
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+interface PostContentProps {
+  text: string;
+  mentions?: Record<string, string>; // handle -> userPub, as resolved at publish time
+}
+
+/**
+ * Renders post text, turning resolved @mentions into profile links
+ */
+export const PostContent: React.FC<PostContentProps> = ({ text, mentions }) => {
+  if (!mentions || Object.keys(mentions).length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts = text.split(/((?:^|[^\w@])@[\w.\-]+)/g);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        const match = part.match(/^([^\w@]?)@([\w.\-]+?)([.\-]*)$/);
+        const userPub = match ? mentions[match[2].toLowerCase()] : undefined;
+        if (!match || !userPub) {
+          return <React.Fragment key={index}>{part}</React.Fragment>;
+        }
+        return (
+          <React.Fragment key={index}>
+            {match[1]}
+            <Link to={`/profile/${userPub}`} className="text-primary hover:underline">
+              @{match[2]}
+            </Link>
+            {match[3]}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+};
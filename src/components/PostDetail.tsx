@@ -3,8 +3,15 @@ import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useShogun } from 'shogun-button-react';
 import { useSocialProtocol } from '../hooks/useSocialProtocol';
 import { PostCard } from './PostCard';
-import { useReplies } from '../hooks/useReplies';
-import type { Post } from '../utils/postUtils';
+import { ConversationTree } from './ConversationTree';
+import { usePostRevisions } from '../hooks/usePostRevisions';
+import { useQuotes } from '../hooks/useQuotes';
+import { useConversation } from '../hooks/useConversation';
+import { RevisionHistory } from './RevisionHistory';
+import { countReplies, splitThreadContinuation } from '../utils/conversation';
+import { isSealedVisibility, parseContentWarning, parseMentions, parseVisibility, toCardPost, type Post } from '../utils/postUtils';
+import { parsePoll } from '../utils/polls';
+import { isInteraction } from '../utils/interactions';
 
 export const PostDetail: React.FC = () => {
   const { postId: rawPostId } = useParams<{ postId: string }>();
@@ -19,8 +26,13 @@ export const PostDetail: React.FC = () => {
   const [post, setPost] = useState<Post | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  // Use decoded version for replies
-  const { replies, loading: repliesLoading } = useReplies(postIdDecoded || postId || '');
+  const { revisions, isEdited } = usePostRevisions(post?.id || '', post?.author || '');
+  const quotes = useQuotes(postIdDecoded || postId || '');
+  // Use decoded version for the conversation
+  const { ancestors, replies, loading: conversationLoading, refresh } = useConversation(postIdDecoded || postId);
+  // The next post of the thread is shown with the thread, not among the replies
+  const { next: threadNext, others: otherReplies } = splitThreadContinuation(post?.author || '', replies);
+  const otherReplyCount = countReplies(otherReplies);
 
   useEffect(() => {
     // Use decoded version if available, otherwise use raw
@@ -62,7 +74,7 @@ export const PostDetail: React.FC = () => {
       let postDataReceived = false;
       
       // Use .on() to listen for data (may not be immediately available)
-      const postDataListener = (postData: any) => {
+      const postDataListener = async (postData: any) => {
         // Skip if we already processed this or if data is not ready
         if (postDataReceived || !postData) return;
         
@@ -97,16 +109,41 @@ export const PostDetail: React.FC = () => {
             }
           }
           
+          // Encrypted posts are readable by their audience only
+          const content = isSealedVisibility(cleanPostData.visibility)
+            ? await socialNetwork.openPostContent(cleanPostData)
+            : {
+                text: postContent,
+                mentions: parseMentions(cleanPostData.mentions),
+                poll: parsePoll(cleanPostData.poll),
+                contentWarning: parseContentWarning(cleanPostData.contentWarning),
+              };
+          if (!content) {
+            setError(
+              cleanPostData.visibility === 'direct'
+                ? 'This post is only visible to the people it was sent to'
+                : 'This post is only visible to approved followers'
+            );
+            setLoading(false);
+            return;
+          }
+
           // Convert to Post format (content-addressed uses authorPub/text)
           const post: Post = {
             id: searchPostId, // Use hash as ID
             author: postAuthor,
-            content: postContent,
+            content: content.text,
             timestamp: cleanPostData.timestamp || Date.now(),
             likes: cleanPostData.likes || {},
             reposts: cleanPostData.reposts || {},
             replyTo: cleanPostData.replyTo || undefined,
             media: cleanPostData.media || undefined,
+            mentions: content.mentions,
+            poll: content.poll || undefined,
+            contentWarning: content.contentWarning || undefined,
+            sensitive: cleanPostData.sensitive === true,
+            visibility: parseVisibility(cleanPostData.visibility),
+            quoteOf: cleanPostData.quoteOf || undefined,
           };
 
           console.log('Post object created:', post);
@@ -118,7 +155,7 @@ export const PostDetail: React.FC = () => {
           // Load likes
           const likes: Record<string, boolean> = {};
           likesNode.map().once((likeValue: any, likeKey: string) => {
-            if (likeKey && !likeKey.startsWith('_') && (likeValue === true || (likeValue && typeof likeValue === 'object' && !likeValue._))) {
+            if (likeKey && !likeKey.startsWith('_') && isInteraction(likeValue)) {
               likes[likeKey] = true;
             }
           });
@@ -126,7 +163,7 @@ export const PostDetail: React.FC = () => {
           // Load reposts
           const reposts: Record<string, boolean> = {};
           repostsNode.map().once((repostValue: any, repostKey: string) => {
-            if (repostKey && !repostKey.startsWith('_') && (repostValue && typeof repostValue === 'object' && !repostValue._)) {
+            if (repostKey && !repostKey.startsWith('_') && isInteraction(repostValue)) {
               reposts[repostKey] = true;
             }
           });
@@ -414,28 +451,83 @@ export const PostDetail: React.FC = () => {
         </button>
       </div>
 
-      {/* Main post */}
-      <PostCard post={post} />
-
-      {/* Show parent post if this is a reply */}
+      {/* Earlier posts of the conversation, root first */}
       {post.replyTo && (
+        <div className="mb-4">
+          {!conversationLoading && ancestors[ancestors.length - 1]?.id !== post.replyTo && (
+            <div className="card content-card p-4 mb-4">
+              <p className="text-sm text-shogun-secondary">Earlier posts of this conversation are not available</p>
+            </div>
+          )}
+          {ancestors.length > 0 && (
+            <div className="opacity-75">
+              {ancestors.map((ancestor) => (
+                <PostCard key={ancestor.id} post={toCardPost(ancestor)} onReply={refresh} showReplies={false} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Focused post */}
+      <PostCard post={post} onReply={refresh} showReplies={false} highlighted />
+
+      {/* Who liked / reposted it */}
+      <div className="flex gap-4 mb-4 text-sm">
+        <Link to={`/post/${encodeURIComponent(post.id)}/likes`} className="link">
+          Liked by
+        </Link>
+        <Link to={`/post/${encodeURIComponent(post.id)}/reposts`} className="link">
+          Reposted by
+        </Link>
+      </div>
+
+      {/* Edit history */}
+      {isEdited && (
         <div className="mb-4">
           <h3 className="text-sm font-semibold mb-2 text-shogun-secondary">
-            Replying to:
+            Edit history ({revisions.length} {revisions.length === 1 ? 'edit' : 'edits'})
           </h3>
-          <ParentPost postId={post.replyTo} />
+          <RevisionHistory revisions={revisions} />
         </div>
       )}
 
-      {/* Replies section */}
-      {!repliesLoading && replies.length > 0 && (
+      {/* Rest of the thread (the author's self-replies), as one sequence */}
+      {threadNext && (
+        <div className="ml-6 pl-4 border-l-2 border-shogun-primary/30">
+          <ConversationTree nodes={[threadNext]} onChange={refresh} />
+        </div>
+      )}
+
+      {/* Replies, as a tree */}
+      {conversationLoading && replies.length === 0 ? (
+        <div className="flex items-center gap-2 mt-6">
+          <span className="loading loading-spinner loading-sm"></span>
+          <span className="text-sm text-shogun-secondary">Loading replies...</span>
+        </div>
+      ) : (
+        otherReplies.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-xl font-bold mb-4">
+              {otherReplyCount} {otherReplyCount === 1 ? 'Reply' : 'Replies'}
+            </h3>
+            <ConversationTree nodes={otherReplies} onChange={refresh} />
+          </div>
+        )
+      )}
+
+      {/* Quotes section (back-references from quote posts) */}
+      {quotes.length > 0 && (
         <div className="mt-6">
           <h3 className="text-xl font-bold mb-4">
-            {replies.length} {replies.length === 1 ? 'Reply' : 'Replies'}
+            {quotes.length} {quotes.length === 1 ? 'Quote' : 'Quotes'}
           </h3>
           <div className="space-y-4">
-            {replies.map((reply) => (
-              <PostCard key={reply.id} post={reply} />
+            {quotes.map((quote) => (
+              <PostCard
+                key={quote.id}
+                post={toCardPost(quote)}
+              />
             ))}
           </div>
         </div>
@@ -443,65 +535,3 @@ export const PostDetail: React.FC = () => {
     </div>
   );
 };
-
-// Component to show parent post (if this is a reply)
-// Now uses the new bidirectional getParentPost method
-const ParentPost: React.FC<{ postId: string }> = ({ postId }) => {
-  const { getParentPost } = useSocialProtocol();
-  const [parentPost, setParentPost] = useState<Post | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (!postId) {
-      setLoading(false);
-      return;
-    }
-
-    // Use the new bidirectional getParentPost method
-    getParentPost(postId, (post) => {
-      if (post) {
-        const convertedPost: Post = {
-          id: post.id,
-          author: post.authorPub || post.author || '',
-          content: post.text || post.content || '',
-          timestamp: post.timestamp || Date.now(),
-          likes: post.likes || {},
-          reposts: post.reposts || {},
-          replyTo: post.replyTo || undefined,
-          media: post.media || undefined,
-          authorProfile: post.authorProfile ? {
-            username: post.authorProfile.displayName,
-            avatar: post.authorProfile.avatarCid || undefined,
-            bio: post.authorProfile.bio,
-          } : undefined,
-        };
-        setParentPost(convertedPost);
-      }
-      setLoading(false);
-    });
-  }, [postId, getParentPost]);
-
-  if (loading) {
-    return (
-      <div className="card content-card p-4">
-        <span className="loading loading-spinner loading-sm"></span>
-        <span className="ml-2 text-sm text-shogun-secondary">Loading parent post...</span>
-      </div>
-    );
-  }
-
-  if (!parentPost) {
-    return (
-      <div className="card content-card p-4">
-        <p className="text-sm text-shogun-secondary">Parent post not found</p>
-      </div>
-    );
-  }
-
-  return (
-    <div className="opacity-75">
-      <PostCard post={parentPost} />
-    </div>
-  );
-};
-
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { UserListItem } from './UserProfile';
+import { useInteractionList, type InteractionKind } from '../hooks/useInteractionList';
+import { formatRelativeTime, toAuthorProfile } from '../utils/postUtils';
+
+const TITLES: Record<InteractionKind, string> = {
+  likes: 'Liked by',
+  reposts: 'Reposted by',
+};
+
+/**
+ * Users who liked or reposted a post (/post/:postId/likes and /reposts)
+ */
+export const PostInteractions: React.FC<{ kind: InteractionKind }> = ({ kind }) => {
+  const { postId } = useParams<{ postId: string }>();
+  const { users, loading } = useInteractionList(postId, kind);
+  const postPath = `/post/${encodeURIComponent(postId || '')}`;
+
+  return (
+    <div className="w-full">
+      <div className="card content-card p-6 mb-6 w-full">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-2xl font-bold">{TITLES[kind]}</h2>
+          <Link to={postPath} className="link text-sm">
+            View post
+          </Link>
+        </div>
+        <div className="flex gap-2 mt-3">
+          {(['likes', 'reposts'] as InteractionKind[]).map((tab) => (
+            <Link
+              key={tab}
+              to={`${postPath}/${tab}`}
+              className={`btn btn-sm ${tab === kind ? 'btn-shogun-primary' : 'btn-ghost'}`}
+            >
+              {tab === 'likes' ? 'Likes' : 'Reposts'}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : users.length === 0 ? (
+        <div className="card content-card p-8 text-center w-full">
+          <p className="text-shogun-secondary">{kind === 'likes' ? 'No likes yet.' : 'No reposts yet.'}</p>
+        </div>
+      ) : (
+        <div className="card content-card p-4 w-full space-y-1">
+          {users.map((user) => (
+            <UserListItem
+              key={user.pub}
+              userPub={user.pub}
+              profile={toAuthorProfile(user.profile)}
+              detail={
+                user.timestamp
+                  ? `${kind === 'likes' ? 'Liked' : 'Reposted'} ${formatRelativeTime(user.timestamp)}`
+                  : undefined
+              }
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
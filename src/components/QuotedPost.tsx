@@ -0,0 +1,67 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useQuotedPost } from '../hooks/useQuotes';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { useDisplayPreferences } from '../hooks/useDisplayPreferences';
+import { PostContent } from './PostContent';
+import { formatRelativeTime } from '../utils/postUtils';
+
+/**
+ * Original post embedded in a quote post (or in the composer while quoting)
+ * Deleted or unreadable originals show a placeholder instead.
+ */
+export const QuotedPost: React.FC<{ postId: string }> = ({ postId }) => {
+  const { post, loading, unavailable } = useQuotedPost(postId);
+  const { url: mediaUrl } = useMediaUrl(post?.media);
+  const { preferences } = useDisplayPreferences();
+
+  if (loading) {
+    return (
+      <div className="mb-4 p-4 rounded-lg border border-base-300 flex justify-center">
+        <span className="loading loading-spinner loading-sm"></span>
+      </div>
+    );
+  }
+
+  if (unavailable || !post) {
+    return (
+      <div className="mb-4 p-4 rounded-lg border border-base-300 text-sm text-shogun-secondary">
+        This post is unavailable.
+      </div>
+    );
+  }
+
+  const displayName = post.authorProfile?.displayName || post.author.substring(0, 8) + '...';
+  // The embed has no "Show more": a warned post is opened from the link
+  const isWarned = !!post.contentWarning && !preferences.expandContentWarnings;
+  const isMediaBlurred = !!post.sensitive && !preferences.showSensitiveMedia;
+
+  return (
+    <Link
+      to={`/post/${encodeURIComponent(post.id)}`}
+      className="block mb-4 p-4 rounded-lg border border-base-300 hover:bg-base-200 transition-colors"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-2 mb-1 text-sm">
+        <span className="font-semibold">{displayName}</span>
+        <span className="text-shogun-secondary">{formatRelativeTime(post.timestamp)}</span>
+      </div>
+      {isWarned ? (
+        <p className="text-sm font-medium break-words">⚠️ {post.contentWarning}</p>
+      ) : (
+        <>
+          <div className="whitespace-pre-wrap break-words text-sm">
+            <PostContent text={post.content} />
+          </div>
+          {mediaUrl && (
+            <img
+              src={mediaUrl}
+              alt="Quoted post media"
+              className={`mt-2 max-h-48 rounded-lg object-contain ${isMediaBlurred ? 'blur-2xl' : ''}`}
+            />
+          )}
+        </>
+      )}
+    </Link>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useShogun } from 'shogun-button-react';
+import { useReactions } from '../hooks/useReactions';
+import { useUserProfile } from '../hooks/useUserProfile';
+import { LIKE_REACTION, REACTION_EMOJIS } from '../utils/reactions';
+
+// Link to a reactor's profile, by display name when available
+const ReactorLink: React.FC<{ userPub: string }> = ({ userPub }) => {
+  const { profile } = useUserProfile(userPub);
+  return (
+    <Link to={`/profile/${userPub}`} className="hover:underline">
+      {profile?.username || userPub.substring(0, 8) + '...'}
+    </Link>
+  );
+};
+
+/**
+ * Emoji reactions of a post: counts, a picker and who reacted with each emoji
+ * The ❤️ reaction is the like, which has its own button in PostCard.
+ */
+export const ReactionBar: React.FC<{ postId: string }> = ({ postId }) => {
+  const { isLoggedIn } = useShogun();
+  const { tally, myReactions, toggleReaction } = useReactions(postId);
+  const [showPicker, setShowPicker] = useState(false);
+  const [showReactors, setShowReactors] = useState(false);
+  const [selectedEmoji, setSelectedEmoji] = useState<string | null>(null);
+
+  const reacted = REACTION_EMOJIS.filter((emoji) => tally[emoji]?.length > 0);
+  const chips = reacted.filter((emoji) => emoji !== LIKE_REACTION);
+  const listedEmoji = selectedEmoji && reacted.includes(selectedEmoji) ? selectedEmoji : reacted[0];
+
+  const handleToggle = async (emoji: string) => {
+    setShowPicker(false);
+    const result = await toggleReaction(emoji);
+    if (!result.success) {
+      console.error('Failed to update reaction:', result.error);
+      alert(result.error || 'Failed to update reaction');
+    }
+  };
+
+  if (chips.length === 0 && !isLoggedIn) {
+    return null;
+  }
+
+  return (
+    <div className="mb-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {chips.map((emoji) => (
+          <button
+            key={emoji}
+            className={`btn btn-xs gap-1 ${myReactions.includes(emoji) ? 'btn-shogun-primary' : 'btn-ghost'}`}
+            onClick={() => handleToggle(emoji)}
+            disabled={!isLoggedIn}
+          >
+            {emoji} {tally[emoji].length}
+          </button>
+        ))}
+        {isLoggedIn && (
+          <button
+            className="btn btn-ghost btn-xs"
+            onClick={() => setShowPicker(!showPicker)}
+            title="Add a reaction"
+          >
+            😊+
+          </button>
+        )}
+        {reacted.length > 0 && (
+          <button className="btn btn-ghost btn-xs" onClick={() => setShowReactors(!showReactors)}>
+            {showReactors ? 'Hide reactions' : 'Who reacted'}
+          </button>
+        )}
+      </div>
+
+      {showPicker && (
+        <div className="flex gap-1 mt-1">
+          {REACTION_EMOJIS.filter((emoji) => emoji !== LIKE_REACTION).map((emoji) => (
+            <button
+              key={emoji}
+              className={`btn btn-sm ${myReactions.includes(emoji) ? 'btn-active' : 'btn-ghost'}`}
+              onClick={() => handleToggle(emoji)}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showReactors && listedEmoji && (
+        <div className="mt-2 p-3 rounded-lg bg-base-200">
+          <div className="flex flex-wrap gap-1 mb-2">
+            {reacted.map((emoji) => (
+              <button
+                key={emoji}
+                className={`btn btn-xs ${emoji === listedEmoji ? 'btn-active' : 'btn-ghost'}`}
+                onClick={() => setSelectedEmoji(emoji)}
+              >
+                {emoji} {tally[emoji].length}
+              </button>
+            ))}
+          </div>
+          <ul className="text-sm space-y-1">
+            {tally[listedEmoji].map((reactorPub) => (
+              <li key={reactorPub}>
+                <ReactorLink userPub={reactorPub} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { formatDate } from '../utils/postUtils';
+import type { PostRevision } from '../utils/socialProtocol';
+
+interface RevisionHistoryProps {
+  revisions: PostRevision[]; // Newest first
+}
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions }) => {
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  // The oldest revision remembers the text it replaced: the original post
+  const original = revisions[revisions.length - 1].previousText;
+
+  return (
+    <div className="space-y-3">
+      {revisions.map((revision, index) => (
+        <div key={revision.editedAt} className="p-3 rounded-lg bg-base-200">
+          <div className="text-xs text-shogun-secondary mb-1">
+            {index === 0 ? 'Current version' : 'Edited'} · {formatDate(revision.editedAt)}
+          </div>
+          <div className="text-sm whitespace-pre-wrap break-words">{revision.text}</div>
+        </div>
+      ))}
+      <div className="p-3 rounded-lg bg-base-200 opacity-75">
+        <div className="text-xs text-shogun-secondary mb-1">Original</div>
+        <div className="text-sm whitespace-pre-wrap break-words">{original}</div>
+      </div>
+    </div>
+  );
+};
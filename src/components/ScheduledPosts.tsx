@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useShogun } from 'shogun-button-react';
+import { useScheduledPosts } from '../hooks/useScheduledPosts';
+import { toDateTimeLocal, type ScheduledPost } from '../utils/scheduledPosts';
+import { MAX_POST_LENGTH, VISIBILITY_DETAILS, validatePost } from '../utils/postUtils';
+
+const ScheduledPostItem: React.FC<{ post: ScheduledPost }> = ({ post }) => {
+  const { update, cancel } = useScheduledPosts();
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState(post.text);
+  const [scheduleAt, setScheduleAt] = useState(toDateTimeLocal(post.scheduledAt));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validation = validatePost(text);
+    if (!validation.valid) {
+      setError(validation.error || 'Invalid post');
+      return;
+    }
+    const result = update(post.id, { text, scheduledAt: new Date(scheduleAt).getTime() });
+    if (result.success) {
+      setError(null);
+      setIsEditing(false);
+    } else {
+      setError(result.error || 'Failed to update scheduled post');
+    }
+  };
+
+  const startEditing = () => {
+    setText(post.text);
+    setScheduleAt(toDateTimeLocal(Math.max(post.scheduledAt, Date.now() + 60 * 1000)));
+    setError(null);
+    setIsEditing(true);
+  };
+
+  return (
+    <div className="card content-card p-4 mb-4 w-full">
+      <div className="flex items-center justify-between gap-2 mb-2 text-sm">
+        <span className="font-semibold">{new Date(post.scheduledAt).toLocaleString()}</span>
+        <span className="flex items-center gap-2 text-shogun-secondary">
+          {post.visibility !== 'public' && (
+            <span title={VISIBILITY_DETAILS[post.visibility].label}>{VISIBILITY_DETAILS[post.visibility].icon}</span>
+          )}
+          {post.replyToId && (
+            <Link to={`/post/${encodeURIComponent(post.replyToId)}`} className="link">
+              Reply
+            </Link>
+          )}
+          {post.quoteOf && (
+            <Link to={`/post/${encodeURIComponent(post.quoteOf)}`} className="link">
+              Quote
+            </Link>
+          )}
+          {post.poll && <span>Poll</span>}
+        </span>
+      </div>
+
+      {post.error && !isEditing && (
+        <div className="alert alert-error mb-2">
+          <span className="text-sm">Not published: {post.error}. Edit the post to queue it again.</span>
+        </div>
+      )}
+
+      {isEditing ? (
+        <form onSubmit={handleSave}>
+          <textarea
+            className="textarea textarea-bordered w-full h-24 resize-none mb-2"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={MAX_POST_LENGTH * 2}
+          />
+          <input
+            type="datetime-local"
+            className="input input-bordered input-sm mb-2"
+            value={scheduleAt}
+            min={toDateTimeLocal(Date.now())}
+            onChange={(e) => setScheduleAt(e.target.value)}
+          />
+          {error && <p className="text-xs text-error mb-2">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button type="button" className="btn btn-ghost btn-sm" onClick={() => setIsEditing(false)}>
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-shogun-primary btn-sm" disabled={!text.trim()}>
+              Save
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          {post.contentWarning && <p className="text-sm font-medium mb-1">⚠️ {post.contentWarning}</p>}
+          <p className="whitespace-pre-wrap break-words mb-3">{post.text}</p>
+          <div className="flex justify-end gap-2">
+            <button className="btn btn-ghost btn-sm" onClick={startEditing}>
+              Edit
+            </button>
+            <button className="btn btn-ghost btn-sm text-error" onClick={() => cancel(post.id)}>
+              Cancel post
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Queue of the current user's scheduled posts, to edit or cancel them
+ */
+export const ScheduledPosts: React.FC = () => {
+  const { isLoggedIn } = useShogun();
+  const { posts } = useScheduledPosts();
+
+  if (!isLoggedIn) {
+    return (
+      <div className="card content-card p-8 text-center">
+        <p className="text-shogun-secondary">Please sign in to view your scheduled posts.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div className="card content-card p-6 mb-6 w-full">
+        <h2 className="text-2xl font-bold">Scheduled posts</h2>
+        <p className="text-sm text-shogun-secondary">
+          Stored on this device and published automatically while the app is open.
+        </p>
+      </div>
+
+      {posts.length === 0 ? (
+        <div className="card content-card p-8 text-center w-full">
+          <p className="text-shogun-secondary">No scheduled posts.</p>
+        </div>
+      ) : (
+        posts.map((post) => <ScheduledPostItem key={post.id} post={post} />)
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useSearch } from '../hooks/useSearch';
+import { PostList } from './PostList';
+import type { UserSearchResult } from '../utils/socialProtocol';
+
+const UserResult: React.FC<{ user: UserSearchResult }> = ({ user }) => (
+  <Link
+    to={`/profile/${user.pub}`}
+    className="block p-3 rounded-lg hover:bg-base-200 transition-colors"
+  >
+    <p className="font-semibold truncate">{user.profile.displayName || user.pub.substring(0, 16) + '...'}</p>
+    {user.profile.bio && <p className="text-sm text-shogun-secondary truncate">{user.profile.bio}</p>}
+  </Link>
+);
+
+/**
+ * Search page: ranked posts, users and hashtags for the ?q= query
+ */
+export const Search: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const [input, setInput] = useState(query);
+  const { results, loading, error } = useSearch(query);
+
+  // Keep the input in sync with back/forward navigation
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = input.trim();
+    setSearchParams(q ? { q } : {});
+  };
+
+  const posts = results.posts.map((post) => ({
+    id: post.id,
+    author: post.author,
+    content: post.content,
+    timestamp: post.timestamp,
+    likes: post.likes || {},
+    reposts: post.reposts || {},
+    replyTo: post.replyTo,
+    media: post.media,
+    mentions: post.mentions,
+    visibility: post.visibility,
+    quoteOf: post.quoteOf || undefined,
+    poll: post.poll,
+    contentWarning: post.contentWarning,
+    sensitive: post.sensitive,
+    authorProfile: post.authorProfile,
+  }));
+  const hasResults = posts.length > 0 || results.users.length > 0 || results.tags.length > 0;
+
+  return (
+    <div className="w-full">
+      <form onSubmit={handleSubmit} className="mb-6">
+        <div className="join w-full">
+          <input
+            type="search"
+            className="input input-bordered join-item flex-1"
+            placeholder="Search posts, people and hashtags"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+          />
+          <button type="submit" className="btn btn-shogun-primary join-item">
+            Search
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="alert alert-error mb-4">
+          <span>{error}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <span className="loading loading-lg"></span>
+        </div>
+      ) : query && !hasResults ? (
+        <div className="card content-card p-8 text-center w-full">
+          <p className="text-secondary">No results for "{query}".</p>
+        </div>
+      ) : (
+        <>
+          {results.tags.length > 0 && (
+            <div className="card content-card p-6 mb-6 w-full">
+              <h3 className="text-xl font-bold mb-4">Hashtags</h3>
+              <div className="flex flex-wrap gap-2">
+                {results.tags.map((tag) => (
+                  <Link key={tag.name} to={`/hashtag/${tag.name}`} className="badge badge-outline badge-lg">
+                    #{tag.name}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {results.users.length > 0 && (
+            <div className="card content-card p-6 mb-6 w-full">
+              <h3 className="text-xl font-bold mb-4">People</h3>
+              {results.users.map((user) => (
+                <UserResult key={user.pub} user={user} />
+              ))}
+            </div>
+          )}
+
+          {posts.length > 0 && <PostList posts={posts} />}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useShogun } from 'shogun-button-react';
+import { SocialNetwork } from '../utils/socialProtocol';
+import type { ContentFilter } from '../utils/contentFilters';
+
+interface SocialNetworkContextValue {
+  socialNetwork: SocialNetwork | null;
+  isReady: boolean;
+  error: string | null;
+  contentFilters: ContentFilter[]; // Current user's filters, newest first
+}
+
+const SocialNetworkContext = createContext<SocialNetworkContextValue>({
+  socialNetwork: null,
+  isReady: false,
+  error: null,
+  contentFilters: [],
+});
+
+/**
+ * Shares one SocialNetwork instance, and one subscription to the user's
+ * content filters, with every hook below it (see useSocialNetwork)
+ */
+export const SocialNetworkProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { sdk, core, isLoggedIn } = useShogun();
+  const shogunCore = sdk || core;
+  const [socialNetwork, setSocialNetwork] = useState<SocialNetwork | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [contentFilters, setContentFilters] = useState<ContentFilter[]>([]);
+
+  useEffect(() => {
+    if (!shogunCore?.gun) {
+      setSocialNetwork(null);
+      return;
+    }
+
+    try {
+      setSocialNetwork(
+        new SocialNetwork({
+          appName: 'shogun-mistodon-clone-v1',
+          shogunCore,
+        })
+      );
+      setError(null);
+    } catch (err) {
+      console.error('Error initializing SocialNetwork:', err);
+      setError(err instanceof Error ? err.message : 'Failed to initialize social network');
+      setSocialNetwork(null);
+    }
+  }, [shogunCore]);
+
+  // Keep the user's content filters in sync
+  useEffect(() => {
+    setContentFilters([]);
+    if (!socialNetwork || !isLoggedIn) {
+      return;
+    }
+
+    const filtersMap = new Map<string, ContentFilter>();
+    return socialNetwork.viewContentFilters((filter, id) => {
+      if (filter) {
+        filtersMap.set(id, filter);
+      } else {
+        filtersMap.delete(id);
+      }
+      setContentFilters(Array.from(filtersMap.values()).sort((a, b) => b.createdAt - a.createdAt));
+    });
+  }, [socialNetwork, isLoggedIn]);
+
+  return (
+    <SocialNetworkContext.Provider value={{ socialNetwork, isReady: !!socialNetwork, error, contentFilters }}>
+      {children}
+    </SocialNetworkContext.Provider>
+  );
+};
+
+/**
+ * The app's shared SocialNetwork instance (see SocialNetworkProvider)
+ */
+export function useSocialNetwork(): SocialNetworkContextValue {
+  return useContext(SocialNetworkContext);
+}
@@ -16,61 +16,70 @@ import { PostList } from './PostList';
 import { formatRelativeTime } from '../utils/postUtils';
 import type { PostWithAuthor } from '../utils/socialProtocol';
 
-type TimelineMode = 'global' | 'following';
+type TimelineMode = 'global' | 'following' | 'mentions';
 
-export const Timeline: React.FC = () => {
-  const { isLoggedIn } = useShogun();
+interface TimelineProps {
+  hashtag?: string; // Open filtered by this hashtag (/hashtag/:tag)
+}
+
+export const Timeline: React.FC<TimelineProps> = ({ hashtag }) => {
+  const { isLoggedIn, userPub } = useShogun();
   const {
     isReady,
     displayedPosts,
     loading,
     error,
     hasMore,
+    loadingMore,
     loadMore,
     viewGlobalTimeline,
     viewFollowingTimeline,
     viewHashtag,
+    viewMentions,
     clearTimeline,
   } = useSocialProtocol();
   const { following } = useFollow();
   // IMPORTANT: All hooks must be called before any conditional returns
   const [timelineMode, setTimelineMode] = useState<TimelineMode>('global');
-  const [hashtagFilter, setHashtagFilter] = useState<string | null>(null);
+  const [hashtagFilter, setHashtagFilter] = useState<string | null>(hashtag ? `#${hashtag}` : null);
   const [hashtagSearch, setHashtagSearch] = useState<string>('');
   const [showComposer, setShowComposer] = useState(false);
 
-  // Load timeline when component mounts and protocol is ready
   useEffect(() => {
-    if (!isReady) return;
-
-    clearTimeline();
+    setHashtagFilter(hashtag ? `#${hashtag}` : null);
+  }, [hashtag]);
 
+  // Load the posts for the current filter or timeline mode
+  const loadTimeline = () => {
     if (hashtagFilter) {
       viewHashtag(hashtagFilter);
     } else if (timelineMode === 'following' && isLoggedIn && following.length > 0) {
       viewFollowingTimeline(following);
+    } else if (timelineMode === 'mentions' && isLoggedIn && userPub) {
+      viewMentions(userPub);
     } else {
       viewGlobalTimeline();
     }
+  };
+
+  // Load timeline when component mounts and protocol is ready
+  useEffect(() => {
+    if (!isReady) return;
+
+    clearTimeline();
+
+    loadTimeline();
 
     return () => {
       clearTimeline();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isReady, timelineMode, hashtagFilter, isLoggedIn, following.length]);
+  }, [isReady, timelineMode, hashtagFilter, isLoggedIn, following.length, userPub]);
 
   // Refresh timeline after post creation
   const handlePostCreated = () => {
     // Timeline will update automatically via listeners, but we can refresh to be sure
-    setTimeout(() => {
-      if (hashtagFilter) {
-        viewHashtag(hashtagFilter);
-      } else if (timelineMode === 'following' && isLoggedIn && following.length > 0) {
-        viewFollowingTimeline(following);
-      } else {
-        viewGlobalTimeline();
-      }
-    }, 500);
+    setTimeout(loadTimeline, 500);
   };
 
   // Handle hashtag search
@@ -103,6 +112,13 @@ export const Timeline: React.FC = () => {
       reposts: post.reposts || {},
       replyTo: post.replyTo,
       media: 'media' in post ? post.media : undefined,
+      mentions: post.mentions,
+      visibility: post.visibility,
+      quoteOf: post.quoteOf || undefined,
+      poll: post.poll,
+      contentWarning: post.contentWarning || undefined,
+      sensitive: post.sensitive,
+      collapsedBy: post.collapsedBy,
       // Add author profile info if available
       authorProfile: post.authorProfile,
     }));
@@ -191,6 +207,8 @@ export const Timeline: React.FC = () => {
                 ? `Posts with ${hashtagFilter}`
                 : timelineMode === 'following'
                 ? 'Posts from people you follow'
+                : timelineMode === 'mentions'
+                ? 'Posts that mention you'
                 : isLoggedIn
                 ? 'All posts from the decentralized network'
                 : 'Sign in to create and interact with posts'}
@@ -220,6 +238,15 @@ export const Timeline: React.FC = () => {
             >
               Following {following.length > 0 && `(${following.length})`}
             </button>
+            <button
+              className={`btn btn-sm ${timelineMode === 'mentions' ? 'btn-shogun-primary' : 'btn-ghost'}`}
+              onClick={() => {
+                setTimelineMode('mentions');
+                setHashtagFilter(null);
+              }}
+            >
+              Mentions
+            </button>
           </div>
         )}
 
@@ -277,14 +304,7 @@ export const Timeline: React.FC = () => {
             <span>Filtering by hashtag: {hashtagFilter}</span>
             <button
               className="btn btn-sm btn-ghost"
-              onClick={() => {
-                setHashtagFilter(null);
-                if (timelineMode === 'following' && isLoggedIn && following.length > 0) {
-                  viewFollowingTimeline(following);
-                } else {
-                  viewGlobalTimeline();
-                }
-              }}
+              onClick={() => setHashtagFilter(null)}
             >
               Clear filter
             </button>
@@ -295,9 +315,9 @@ export const Timeline: React.FC = () => {
 
       <PostList 
         posts={convertedPosts} 
-        loading={loading} 
+        loading={loading || loadingMore} 
         hasMore={hasMore}
-        onRefresh={viewGlobalTimeline}
+        onRefresh={loadTimeline}
         onLoadMore={loadMore}
       />
     </div>
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTrending } from '../hooks/useTrending';
+import { TRENDING_WINDOWS, type TrendingTag, type TrendingWindow } from '../utils/trending';
+
+const WINDOW_LABELS: Record<TrendingWindow, string> = {
+  '1h': 'Last hour',
+  '24h': 'Today',
+  '7d': 'This week',
+};
+
+// Growth over the previous window, e.g. "+150%" or "new"
+const formatGrowth = (tag: TrendingTag, period: TrendingWindow): string => {
+  const { count, previous } = tag.stats[period];
+  if (previous === 0) {
+    return 'new';
+  }
+  return `+${Math.round(((count - previous) / previous) * 100)}%`;
+};
+
+/**
+ * "Trending" card shown beside every page
+ */
+export const TrendingSidebar: React.FC = () => {
+  const { tags, loading } = useTrending('24h', 5);
+
+  return (
+    <div className="card content-card p-4 w-full">
+      <h3 className="font-bold mb-3">Trending</h3>
+      {loading && tags.length === 0 ? (
+        <span className="loading loading-spinner loading-sm"></span>
+      ) : tags.length === 0 ? (
+        <p className="text-sm text-shogun-secondary">Nothing trending right now.</p>
+      ) : (
+        <ul className="space-y-2">
+          {tags.map((tag) => (
+            <li key={tag.name}>
+              <Link to={`/hashtag/${tag.name}`} className="font-semibold hover:underline">
+                #{tag.name}
+              </Link>
+              <p className="text-xs text-shogun-secondary">
+                {tag.stats['24h'].count} posts today · {formatGrowth(tag, '24h')}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Link to="/explore" className="link text-sm mt-3">
+        Explore
+      </Link>
+    </div>
+  );
+};
+
+/**
+ * Explore page: trending hashtags per window with usage statistics
+ */
+export const Explore: React.FC = () => {
+  const [period, setPeriod] = useState<TrendingWindow>('24h');
+  const { tags, loading } = useTrending(period, 30);
+  const windows = Object.keys(TRENDING_WINDOWS) as TrendingWindow[];
+
+  return (
+    <div className="w-full">
+      <div className="card content-card p-6 w-full">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold">Explore</h2>
+          <div className="join">
+            {windows.map((option) => (
+              <button
+                key={option}
+                className={`btn btn-sm join-item ${period === option ? 'btn-active' : ''}`}
+                onClick={() => setPeriod(option)}
+              >
+                {WINDOW_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading && tags.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <span className="loading loading-lg"></span>
+          </div>
+        ) : tags.length === 0 ? (
+          <p className="text-shogun-secondary">No hashtag is gaining traction in this period.</p>
+        ) : (
+          <table className="table w-full">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Hashtag</th>
+                {windows.map((option) => (
+                  <th key={option} className="text-right">
+                    {option}
+                  </th>
+                ))}
+                <th className="text-right">Growth</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tags.map((tag, index) => (
+                <tr key={tag.name} className="hover">
+                  <td>{index + 1}</td>
+                  <td>
+                    <Link to={`/hashtag/${tag.name}`} className="font-semibold hover:underline">
+                      #{tag.name}
+                    </Link>
+                  </td>
+                  {windows.map((option) => (
+                    <td key={option} className="text-right">
+                      {tag.stats[option].count}
+                    </td>
+                  ))}
+                  <td className="text-right text-success">{formatGrowth(tag, period)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
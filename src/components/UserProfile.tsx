@@ -1,15 +1,30 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useShogun } from 'shogun-button-react';
-import { useUserProfile } from '../hooks/useUserProfile';
+import { useUserProfile, type UserProfile as ListProfile } from '../hooks/useUserProfile';
 import { useFollow } from '../hooks/useFollow';
 import { useUserPosts } from '../hooks/useUserPosts';
+import { useFollowRequestStatus } from '../hooks/useFollowRequests';
+import { usePinnedPosts } from '../hooks/usePinnedPosts';
 import { PostList } from './PostList';
+import { PostCard } from './PostCard';
+import { ModerationMenu, ModerationSettings } from './ModerationControls';
+import { ContentFiltersSettings } from './ContentFiltersSettings';
+import { DisplaySettings } from './DisplaySettings';
+import { FollowRequestsSettings } from './FollowRequests';
 import { getCurrentUserPub } from '../utils/gunHelpers';
+import { toCardPost } from '../utils/postUtils';
 
 // Component to display a user in the following/followers list
-const UserListItem: React.FC<{ userPub: string }> = ({ userPub }) => {
-  const { profile } = useUserProfile(userPub);
+// (also used by the likes/reposts lists of a post)
+export const UserListItem: React.FC<{
+  userPub: string;
+  profile?: ListProfile; // Already loaded profile, if any
+  detail?: string; // Shown under the name instead of the bio
+  onRemove?: () => void; // Own followers list: remove this follower
+}> = ({ userPub, profile: knownProfile, detail, onRemove }) => {
+  const { profile: loadedProfile } = useUserProfile(knownProfile ? undefined : userPub);
+  const profile = knownProfile || loadedProfile;
   const currentUserFollow = useFollow(); // For current user's following status
   const { userPub: currentUserPub, isLoggedIn } = useShogun();
   const [isToggling, setIsToggling] = useState(false);
@@ -56,11 +71,18 @@ const UserListItem: React.FC<{ userPub: string }> = ({ userPub }) => {
           >
             {displayName}
           </Link>
-          {profile?.bio && (
-            <p className="text-sm text-shogun-secondary truncate">{profile.bio}</p>
+          {detail ? (
+            <p className="text-sm text-shogun-secondary truncate">{detail}</p>
+          ) : (
+            profile?.bio && <p className="text-sm text-shogun-secondary truncate">{profile.bio}</p>
           )}
         </div>
       </div>
+      {onRemove && (
+        <button className="btn btn-ghost btn-sm text-error mr-2" onClick={onRemove} title="Remove this follower">
+          Remove
+        </button>
+      )}
       {isLoggedIn && currentUserPub && currentUserPub !== userPub && (
         <button
           className={`btn btn-sm ${isFollowingUser ? 'btn-outline' : 'btn-shogun-primary'}`}
@@ -91,8 +113,11 @@ export const UserProfile: React.FC<UserProfileProps> = ({ userPub }) => {
   
   // IMPORTANT: Always call ALL hooks in the same order, before any conditional returns
   const { profile, loading: profileLoading, updateProfile } = useUserProfile(targetUserPub);
-  const { following, followers, loading: followLoading, follow, unfollow, isFollowing } = useFollow(targetUserPub);
+  const { following, followers, loading: followLoading, follow, unfollow, removeFollower, isFollowing } =
+    useFollow(targetUserPub);
   const { posts: userPosts, loading: postsLoading } = useUserPosts(targetUserPub);
+  const pinnedPosts = usePinnedPosts(targetUserPub);
+  const { locked, status: requestStatus, refresh: refreshRequest, cancel: cancelRequest } = useFollowRequestStatus(targetUserPub);
   
   // All useState hooks must be called before any conditional returns
   const [isEditing, setIsEditing] = useState(false);
@@ -177,9 +202,15 @@ export const UserProfile: React.FC<UserProfileProps> = ({ userPub }) => {
     if (isFollowing(targetUserPub)) {
       const result = await unfollow(targetUserPub);
       console.log('Unfollow result:', result);
+    } else if (requestStatus === 'pending') {
+      const result = await cancelRequest();
+      console.log('Cancel follow request result:', result);
     } else {
       const result = await follow(targetUserPub);
       console.log('Follow result:', result);
+      if (result.pending) {
+        refreshRequest();
+      }
     }
   };
 
@@ -236,6 +267,11 @@ export const UserProfile: React.FC<UserProfileProps> = ({ userPub }) => {
             <div>
               <h2 className="text-2xl font-bold">
                 {profile?.username || targetUserPub.substring(0, 16) + '...'}
+                {locked && (
+                  <span className="ml-2 text-lg" title="Private account">
+                    🔒
+                  </span>
+                )}
               </h2>
               <p className="text-shogun-secondary text-sm font-mono break-all">
                 {targetUserPub}
@@ -252,19 +288,33 @@ export const UserProfile: React.FC<UserProfileProps> = ({ userPub }) => {
             </button>
           ) : (
             isLoggedIn && (
-              <button
-                className={`btn btn-sm ${isFollowing(targetUserPub) ? 'btn-outline' : 'btn-shogun-primary'}`}
-                onClick={handleFollow}
-                disabled={followLoading}
-              >
-                {followLoading ? (
-                  <span className="loading loading-spinner loading-xs"></span>
-                ) : isFollowing(targetUserPub) ? (
-                  'Unfollow'
-                ) : (
-                  'Follow'
-                )}
-              </button>
+              <div className="flex gap-2">
+                <Link
+                  to={`/messages/${encodeURIComponent(targetUserPub)}`}
+                  className="btn btn-sm btn-ghost"
+                >
+                  Message
+                </Link>
+                <button
+                  className={`btn btn-sm ${isFollowing(targetUserPub) || requestStatus === 'pending' ? 'btn-outline' : 'btn-shogun-primary'}`}
+                  onClick={handleFollow}
+                  title={requestStatus === 'pending' ? 'Cancel follow request' : undefined}
+                  disabled={followLoading}
+                >
+                  {followLoading ? (
+                    <span className="loading loading-spinner loading-xs"></span>
+                  ) : isFollowing(targetUserPub) ? (
+                    'Unfollow'
+                  ) : requestStatus === 'pending' ? (
+                    'Requested'
+                  ) : locked ? (
+                    'Request to follow'
+                  ) : (
+                    'Follow'
+                  )}
+                </button>
+                <ModerationMenu userPub={targetUserPub} />
+              </div>
             )
           )}
         </div>
@@ -393,6 +443,11 @@ export const UserProfile: React.FC<UserProfileProps> = ({ userPub }) => {
         </div>
       </div>
 
+      {isOwnProfile && isLoggedIn && <FollowRequestsSettings />}
+      {isOwnProfile && isLoggedIn && <ModerationSettings />}
+      {isOwnProfile && isLoggedIn && <ContentFiltersSettings />}
+      {isOwnProfile && isLoggedIn && <DisplaySettings />}
+
       {/* Following/Followers Lists */}
       {(showFollowing || showFollowers) && (
         <div className="card content-card p-6 mb-6 w-full">
@@ -418,13 +473,40 @@ export const UserProfile: React.FC<UserProfileProps> = ({ userPub }) => {
           ) : (
             <div className="space-y-3">
               {(showFollowing ? following : followers).map((userPub) => (
-                <UserListItem key={userPub} userPub={userPub} />
+                <UserListItem
+                  key={userPub}
+                  userPub={userPub}
+                  onRemove={
+                    !showFollowing && isOwnProfile
+                      ? async () => {
+                          const result = await removeFollower(userPub);
+                          if (!result.success) {
+                            alert(result.error || 'Failed to remove follower');
+                          }
+                        }
+                      : undefined
+                  }
+                />
               ))}
             </div>
           )}
         </div>
       )}
 
+      {/* Pinned posts, above the user's posts */}
+      {pinnedPosts.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-xl font-bold mb-2">Pinned</h3>
+          {pinnedPosts.map((post) => (
+            <PostCard
+              key={post.id}
+              post={toCardPost(post)}
+              pinned
+            />
+          ))}
+        </div>
+      )}
+
       {/* User Posts - REMOVED */}
       {/* <div className="mb-4">
         <h3 className="text-xl font-bold mb-2">Posts</h3>
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { PostWithAuthor } from '../utils/socialProtocol';
+
+interface UseBookmarksReturn {
+  isBookmarked: (postId: string) => boolean;
+  bookmark: (postId: string) => Promise<{ success: boolean; error?: string }>;
+  unbookmark: (postId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for the current user's private bookmarks
+ */
+export function useBookmarks(): UseBookmarksReturn {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [bookmarks, setBookmarks] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setBookmarks({});
+    if (!socialNetwork || !isReady) {
+      return;
+    }
+    return socialNetwork.viewBookmarks(setBookmarks);
+  }, [socialNetwork, isReady]);
+
+  const isBookmarked = useCallback((postId: string) => !!bookmarks[postId], [bookmarks]);
+
+  const bookmark = useCallback(
+    async (postId: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      const result = await socialNetwork.bookmark(postId);
+      if (result.success) {
+        setBookmarks((prev) => ({ ...prev, [postId]: prev[postId] || Date.now() }));
+      }
+      return result;
+    },
+    [socialNetwork]
+  );
+
+  const unbookmark = useCallback(
+    async (postId: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      const result = await socialNetwork.unbookmark(postId);
+      if (result.success) {
+        setBookmarks((prev) => {
+          const next = { ...prev };
+          delete next[postId];
+          return next;
+        });
+      }
+      return result;
+    },
+    [socialNetwork]
+  );
+
+  return { isBookmarked, bookmark, unbookmark };
+}
+
+/**
+ * Hook for the bookmarked posts, most recently saved first
+ */
+export function useBookmarkedPosts(): { posts: PostWithAuthor[]; loading: boolean } {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [posts, setPosts] = useState<PostWithAuthor[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setPosts([]);
+    if (!socialNetwork || !isReady) {
+      return;
+    }
+
+    setLoading(true);
+    const loadingTimeout = setTimeout(() => setLoading(false), 3000);
+    const saved = new Map<string, { post: PostWithAuthor; savedAt: number }>();
+    const cleanup = socialNetwork.viewBookmarkedPosts((post, postId, savedAt) => {
+      if (post) {
+        saved.set(postId, { post, savedAt });
+      } else {
+        saved.delete(postId);
+      }
+      setPosts(
+        Array.from(saved.values())
+          .sort((a, b) => b.savedAt - a.savedAt)
+          .map((entry) => entry.post)
+      );
+      setLoading(false);
+    });
+
+    return () => {
+      clearTimeout(loadingTimeout);
+      cleanup();
+    };
+  }, [socialNetwork, isReady]);
+
+  return { posts, loading };
+}
@@ -0,0 +1,45 @@
+import { useCallback } from 'react';
+import { useSocialNetwork } from '../components/SocialNetworkProvider';
+import type { ContentFilter } from '../utils/contentFilters';
+
+interface UseContentFiltersReturn {
+  filters: ContentFilter[]; // Newest first
+  saveFilter: (
+    filter: Omit<ContentFilter, 'id' | 'createdAt'> & { id?: string }
+  ) => Promise<{ success: boolean; error?: string }>;
+  removeFilter: (id: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for managing the current user's keyword/regex/hashtag filters
+ */
+export function useContentFilters(): UseContentFiltersReturn {
+  // The filters subscription is shared by the whole app
+  const { socialNetwork, contentFilters: filters } = useSocialNetwork();
+
+  const saveFilter = useCallback(
+    async (filter: Omit<ContentFilter, 'id' | 'createdAt'> & { id?: string }) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.saveContentFilter(filter);
+    },
+    [socialNetwork]
+  );
+
+  const removeFilter = useCallback(
+    async (id: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.removeContentFilter(id);
+    },
+    [socialNetwork]
+  );
+
+  return {
+    filters,
+    saveFilter,
+    removeFilter,
+  };
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { ConversationNode, PostWithAuthor } from '../utils/socialProtocol';
+
+interface UseConversationReturn {
+  ancestors: PostWithAuthor[]; // Root first, up to the parent of the post
+  replies: ConversationNode[];
+  loading: boolean;
+  refresh: () => void;
+}
+
+/**
+ * Hook for the conversation around a post: its ancestors and reply tree
+ */
+export function useConversation(postId: string | undefined): UseConversationReturn {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [ancestors, setAncestors] = useState<PostWithAuthor[]>([]);
+  const [replies, setReplies] = useState<ConversationNode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    setAncestors([]);
+    setReplies([]);
+  }, [postId]);
+
+  useEffect(() => {
+    if (!socialNetwork || !isReady || !postId) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([socialNetwork.getConversationAncestors(postId), socialNetwork.getReplyTree(postId)]).then(
+      ([chain, tree]) => {
+        if (!cancelled) {
+          setAncestors(chain);
+          setReplies(tree);
+          setLoading(false);
+        }
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [socialNetwork, isReady, postId, version]);
+
+  // Reload after a reply, an edit or a deletion in the conversation
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { ancestors, replies, loading, refresh };
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useShogun } from 'shogun-button-react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { Conversation, DirectMessage } from '../utils/socialProtocol';
+
+interface ConversationWithReadState extends Conversation {
+  lastMessageAt: number;
+  unread: boolean;
+}
+
+interface UseConversationsReturn {
+  conversations: ConversationWithReadState[]; // Most recent first
+  unreadCount: number;
+  loading: boolean;
+}
+
+interface UseConversationReturn {
+  messages: DirectMessage[]; // Oldest first
+  loading: boolean;
+  peerReadAt: number; // Read receipt: the peer has seen messages up to this time
+  sendMessage: (text: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for the current user's list of direct message conversations
+ */
+export function useConversations(): UseConversationsReturn {
+  const { isLoggedIn, userPub } = useShogun();
+  const { socialNetwork } = useSocialProtocol();
+  const [conversationsMap, setConversationsMap] = useState<Record<string, Conversation>>({});
+  const [readAtMap, setReadAtMap] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setConversationsMap({});
+    setReadAtMap({});
+    if (!socialNetwork || !isLoggedIn || !userPub) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const readCleanups = new Map<string, () => void>();
+    const loadingTimeout = setTimeout(() => setLoading(false), 3000);
+
+    const cleanup = socialNetwork.viewConversations((conversation) => {
+      clearTimeout(loadingTimeout);
+      setLoading(false);
+      setConversationsMap((prev) => ({ ...prev, [conversation.peerPub]: conversation }));
+
+      // Track how far the current user has read each conversation
+      if (!readCleanups.has(conversation.peerPub)) {
+        readCleanups.set(
+          conversation.peerPub,
+          socialNetwork.viewConversationReadAt(userPub, conversation.peerPub, (readAt) => {
+            setReadAtMap((prev) => ({ ...prev, [conversation.peerPub]: readAt }));
+          })
+        );
+      }
+    });
+
+    return () => {
+      clearTimeout(loadingTimeout);
+      cleanup();
+      readCleanups.forEach((readCleanup) => readCleanup());
+    };
+  }, [socialNetwork, isLoggedIn, userPub]);
+
+  const conversations = useMemo(
+    () =>
+      Object.values(conversationsMap)
+        .map((conversation) => ({
+          ...conversation,
+          lastMessageAt: Math.max(conversation.lastSentAt, conversation.lastReceivedAt),
+          unread: conversation.lastReceivedAt > (readAtMap[conversation.peerPub] || 0),
+        }))
+        .sort((a, b) => b.lastMessageAt - a.lastMessageAt),
+    [conversationsMap, readAtMap]
+  );
+
+  return {
+    conversations,
+    unreadCount: conversations.filter((conversation) => conversation.unread).length,
+    loading,
+  };
+}
+
+/**
+ * Hook for a single encrypted conversation with a peer
+ * Marks the conversation as read while it is open.
+ */
+export function useConversation(peerPub: string): UseConversationReturn {
+  const { isLoggedIn, userPub } = useShogun();
+  const { socialNetwork } = useSocialProtocol();
+  const [messagesMap, setMessagesMap] = useState<Record<string, DirectMessage>>({});
+  const [peerReadAt, setPeerReadAt] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setMessagesMap({});
+    setPeerReadAt(0);
+    if (!socialNetwork || !isLoggedIn || !userPub || !peerPub) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const loadingTimeout = setTimeout(() => setLoading(false), 3000);
+
+    const messagesCleanup = socialNetwork.viewConversation(peerPub, (message) => {
+      clearTimeout(loadingTimeout);
+      setLoading(false);
+      setMessagesMap((prev) => ({ ...prev, [`${message.from}/${message.id}`]: message }));
+    });
+    const receiptCleanup = socialNetwork.viewConversationReadAt(peerPub, userPub, setPeerReadAt);
+
+    return () => {
+      clearTimeout(loadingTimeout);
+      messagesCleanup();
+      receiptCleanup();
+    };
+  }, [socialNetwork, isLoggedIn, userPub, peerPub]);
+
+  const messages = useMemo(
+    () => Object.values(messagesMap).sort((a, b) => a.timestamp - b.timestamp),
+    [messagesMap]
+  );
+
+  // Send a read receipt whenever a new message from the peer is shown
+  const lastReceivedAt = useMemo(
+    () => messages.filter((message) => message.from === peerPub).reduce((max, m) => Math.max(max, m.timestamp), 0),
+    [messages, peerPub]
+  );
+  useEffect(() => {
+    if (!socialNetwork || !lastReceivedAt) {
+      return;
+    }
+    socialNetwork.markConversationRead(peerPub).catch((err) => {
+      console.error('Error sending read receipt:', err);
+    });
+  }, [socialNetwork, peerPub, lastReceivedAt]);
+
+  const sendMessage = useCallback(
+    async (text: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.sendDirectMessage(peerPub, text);
+    },
+    [socialNetwork, peerPub]
+  );
+
+  return {
+    messages,
+    loading,
+    peerReadAt,
+    sendMessage,
+  };
+}
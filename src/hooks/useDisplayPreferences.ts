@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+
+/**
+ * Per-device display preferences, kept in localStorage like the theme
+ */
+export interface DisplayPreferences {
+  expandContentWarnings: boolean; // Show posts behind a content warning right away
+  showSensitiveMedia: boolean; // Don't blur media flagged as sensitive
+}
+
+const STORAGE_KEY = 'displayPreferences';
+
+const DEFAULT_PREFERENCES: DisplayPreferences = {
+  expandContentWarnings: false,
+  showSensitiveMedia: false,
+};
+
+// Every mounted hook is told about changes made by another one
+const listeners = new Set<(preferences: DisplayPreferences) => void>();
+
+const readPreferences = (): DisplayPreferences => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...DEFAULT_PREFERENCES, ...(saved && typeof saved === 'object' ? saved : {}) };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+interface UseDisplayPreferencesReturn {
+  preferences: DisplayPreferences;
+  setPreference: <K extends keyof DisplayPreferences>(key: K, value: DisplayPreferences[K]) => void;
+}
+
+/**
+ * Hook for the display preferences (content warnings, sensitive media)
+ */
+export function useDisplayPreferences(): UseDisplayPreferencesReturn {
+  const [preferences, setPreferences] = useState<DisplayPreferences>(readPreferences);
+
+  useEffect(() => {
+    listeners.add(setPreferences);
+    return () => {
+      listeners.delete(setPreferences);
+    };
+  }, []);
+
+  const setPreference = useCallback(
+    <K extends keyof DisplayPreferences>(key: K, value: DisplayPreferences[K]) => {
+      const updated = { ...readPreferences(), [key]: value };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+      listeners.forEach((listener) => listener(updated));
+    },
+    []
+  );
+
+  return { preferences, setPreference };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { PostDraft } from '../utils/socialProtocol';
+
+interface UseDraftReturn {
+  draft: PostDraft | null; // Draft found when the composer opened
+  loaded: boolean;
+  saveDraft: (draft: Omit<PostDraft, 'updatedAt'>) => Promise<{ success: boolean; error?: string }>;
+  clearDraft: () => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for the encrypted composer draft of a context (new post, reply, quote)
+ */
+export function useDraft(key: string): UseDraftReturn {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [draft, setDraft] = useState<PostDraft | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setDraft(null);
+    setLoaded(false);
+    if (!socialNetwork || !isReady) {
+      return;
+    }
+
+    let cancelled = false;
+    socialNetwork.getDraft(key).then((saved) => {
+      if (!cancelled) {
+        setDraft(saved);
+        setLoaded(true);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [socialNetwork, isReady, key]);
+
+  const saveDraft = useCallback(
+    async (newDraft: Omit<PostDraft, 'updatedAt'>) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.saveDraft(key, newDraft);
+    },
+    [socialNetwork, key]
+  );
+
+  const clearDraft = useCallback(async () => {
+    if (!socialNetwork) {
+      return { success: false, error: 'SocialNetwork not initialized' };
+    }
+    setDraft(null);
+    return socialNetwork.deleteDraft(key);
+  }, [socialNetwork, key]);
+
+  return { draft, loaded, saveDraft, clearDraft };
+}
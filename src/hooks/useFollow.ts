@@ -1,13 +1,17 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useShogun } from 'shogun-button-react';
 import { getCurrentUserPub } from '../utils/gunHelpers';
+import { retractNotification, sendNotification } from '../utils/notifications';
+import { useSocialProtocol } from './useSocialProtocol';
 
 interface UseFollowReturn {
   following: string[];
   followers: string[];
   loading: boolean;
-  follow: (userPub: string) => Promise<{ success: boolean; error?: string }>;
+  follow: (userPub: string) => Promise<{ success: boolean; error?: string; pending?: boolean }>;
   unfollow: (userPub: string) => Promise<{ success: boolean; error?: string }>;
+  block: (userPub: string) => Promise<{ success: boolean; error?: string }>;
+  removeFollower: (userPub: string) => Promise<{ success: boolean; error?: string }>;
   isFollowing: (userPub: string) => boolean;
 }
 
@@ -17,6 +21,7 @@ interface UseFollowReturn {
 export function useFollow(userPub?: string): UseFollowReturn {
   const { sdk, core, isLoggedIn, userPub: currentUserPub } = useShogun();
   const shogunCore = sdk || core;
+  const { socialNetwork } = useSocialProtocol();
   const [following, setFollowing] = useState<string[]>([]);
   const [followers, setFollowers] = useState<string[]>([]);
   const [currentUserFollowing, setCurrentUserFollowing] = useState<string[]>([]);
@@ -133,7 +138,7 @@ export function useFollow(userPub?: string): UseFollowReturn {
 
   // Follow a user
   const follow = useCallback(
-    async (userPubToFollow: string): Promise<{ success: boolean; error?: string }> => {
+    async (userPubToFollow: string): Promise<{ success: boolean; error?: string; pending?: boolean }> => {
       if (!shogunCore?.gun || !isLoggedIn) {
         return { success: false, error: 'Not authenticated' };
       }
@@ -154,7 +159,20 @@ export function useFollow(userPub?: string): UseFollowReturn {
         return { success: false, error: 'Cannot follow yourself' };
       }
 
+      if (socialNetwork && (await socialNetwork.getModerationList()).blocked[userPubToFollow]) {
+        return { success: false, error: 'Unblock this user before following them' };
+      }
+
+      // Locked accounts approve their followers: send a request instead
+      if (socialNetwork && (await socialNetwork.isAccountLocked(userPubToFollow))) {
+        const result = await socialNetwork.requestFollow(userPubToFollow);
+        return { ...result, pending: result.success };
+      }
+
       try {
+        // Signed copy: the target only shares its followers key with signed follows
+        user.get('following').get(userPubToFollow).put({ timestamp: Date.now() });
+
         // Add to current user's following list
         gun.get('users').get(currentUserPub).get('following').get(userPubToFollow).put({
           timestamp: Date.now(),
@@ -165,6 +183,8 @@ export function useFollow(userPub?: string): UseFollowReturn {
           timestamp: Date.now(),
         });
 
+        sendNotification(gun, userPubToFollow, { type: 'follow', actorPub: currentUserPub });
+
         // Update local state immediately for better UX
         setCurrentUserFollowing((prev) => {
           if (!prev.includes(userPubToFollow)) {
@@ -191,7 +211,7 @@ export function useFollow(userPub?: string): UseFollowReturn {
         return { success: false, error: 'Failed to follow user' };
       }
     },
-    [shogunCore, isLoggedIn]
+    [shogunCore, isLoggedIn, socialNetwork]
   );
 
   // Unfollow a user
@@ -214,6 +234,8 @@ export function useFollow(userPub?: string): UseFollowReturn {
       }
 
       try {
+        user.get('following').get(userPubToUnfollow).put(null);
+
         // Remove from current user's following list
         const followingNode = gun.get('users').get(currentUserPub).get('following').get(userPubToUnfollow);
         followingNode.put(null);
@@ -224,6 +246,8 @@ export function useFollow(userPub?: string): UseFollowReturn {
         followersNode.put(null);
         console.log('Removed from followers list:', userPubToUnfollow, '<-', currentUserPub);
 
+        retractNotification(gun, userPubToUnfollow, 'follow', currentUserPub);
+
         // Update local state immediately for better UX
         setCurrentUserFollowing((prev) => prev.filter(pub => pub !== userPubToUnfollow));
 
@@ -246,6 +270,74 @@ export function useFollow(userPub?: string): UseFollowReturn {
     [shogunCore, isLoggedIn, targetUserPub]
   );
 
+  // Block a user: add them to the encrypted block list and remove the
+  // follow relationship in both directions
+  const block = useCallback(
+    async (userPubToBlock: string): Promise<{ success: boolean; error?: string }> => {
+      if (!shogunCore?.gun || !isLoggedIn || !socialNetwork) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const gun = shogunCore.gun;
+      const currentUserPub = getCurrentUserPub(gun) || gun.user()?.is?.pub;
+      if (!currentUserPub) {
+        return { success: false, error: 'User not authenticated' };
+      }
+      if (currentUserPub === userPubToBlock) {
+        return { success: false, error: 'Cannot block yourself' };
+      }
+
+      const result = await socialNetwork.block(userPubToBlock);
+      if (!result.success) {
+        return result;
+      }
+
+      try {
+        // Me -> them
+        gun.user().get('following').get(userPubToBlock).put(null);
+        gun.get('users').get(currentUserPub).get('following').get(userPubToBlock).put(null);
+        gun.get('users').get(userPubToBlock).get('followers').get(currentUserPub).put(null);
+        retractNotification(gun, userPubToBlock, 'follow', currentUserPub);
+        // Them -> me
+        gun.get('users').get(userPubToBlock).get('following').get(currentUserPub).put(null);
+        gun.get('users').get(currentUserPub).get('followers').get(userPubToBlock).put(null);
+
+        // Update local state immediately for better UX
+        setCurrentUserFollowing((prev) => prev.filter(pub => pub !== userPubToBlock));
+        if (targetUserPub === currentUserPub) {
+          setFollowing((prev) => prev.filter(pub => pub !== userPubToBlock));
+          setFollowers((prev) => prev.filter(pub => pub !== userPubToBlock));
+        } else if (targetUserPub === userPubToBlock) {
+          setFollowing((prev) => prev.filter(pub => pub !== currentUserPub));
+          setFollowers((prev) => prev.filter(pub => pub !== currentUserPub));
+        }
+
+        console.log('Blocked user:', userPubToBlock);
+        return { success: true };
+      } catch (err) {
+        console.error('Error removing follows of blocked user:', err);
+        return { success: false, error: 'User blocked, but failed to remove follows' };
+      }
+    },
+    [shogunCore, isLoggedIn, socialNetwork, targetUserPub]
+  );
+
+  // Remove one of the current user's followers (rotates the followers key)
+  const removeFollower = useCallback(
+    async (followerPub: string): Promise<{ success: boolean; error?: string }> => {
+      if (!socialNetwork || !isLoggedIn) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const result = await socialNetwork.removeFollower(followerPub);
+      if (result.success && targetUserPub === currentUserPub) {
+        setFollowers((prev) => prev.filter(pub => pub !== followerPub));
+      }
+      return result;
+    },
+    [socialNetwork, isLoggedIn, targetUserPub, currentUserPub]
+  );
+
   // Check if current user is following a specific user
   const isFollowing = useCallback(
     (userPubToCheck: string): boolean => {
@@ -330,6 +422,8 @@ export function useFollow(userPub?: string): UseFollowReturn {
     loading,
     follow,
     unfollow,
+    block,
+    removeFollower,
     isFollowing,
   };
 }
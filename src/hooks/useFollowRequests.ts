@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useShogun } from 'shogun-button-react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { FollowRequest, FollowRequestStatus } from '../utils/socialProtocol';
+
+interface UseFollowRequestsReturn {
+  requests: FollowRequest[]; // Oldest first
+  approve: (requesterPub: string) => Promise<{ success: boolean; error?: string }>;
+  reject: (requesterPub: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for the follow requests received by the current (locked) account
+ */
+export function useFollowRequests(): UseFollowRequestsReturn {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [requests, setRequests] = useState<FollowRequest[]>([]);
+
+  useEffect(() => {
+    setRequests([]);
+    if (!socialNetwork || !isReady) {
+      return;
+    }
+
+    const requestsMap = new Map<string, FollowRequest>();
+    return socialNetwork.viewFollowRequests((request, requesterPub) => {
+      if (request) {
+        requestsMap.set(requesterPub, request);
+      } else {
+        requestsMap.delete(requesterPub);
+      }
+      setRequests(Array.from(requestsMap.values()).sort((a, b) => a.timestamp - b.timestamp));
+    });
+  }, [socialNetwork, isReady]);
+
+  const approve = useCallback(
+    async (requesterPub: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.approveFollowRequest(requesterPub);
+    },
+    [socialNetwork]
+  );
+
+  const reject = useCallback(
+    async (requesterPub: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.rejectFollowRequest(requesterPub);
+    },
+    [socialNetwork]
+  );
+
+  return { requests, approve, reject };
+}
+
+interface UseFollowRequestStatusReturn {
+  locked: boolean;
+  status: FollowRequestStatus;
+  loading: boolean;
+  refresh: () => void;
+  cancel: () => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for whether an account is locked and the state of the current
+ * user's request to follow it
+ */
+export function useFollowRequestStatus(targetPub: string): UseFollowRequestStatusReturn {
+  const { isLoggedIn } = useShogun();
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [locked, setLocked] = useState(false);
+  const [status, setStatus] = useState<FollowRequestStatus>('none');
+  const [loading, setLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!socialNetwork || !isReady || !targetPub) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([
+      socialNetwork.isAccountLocked(targetPub),
+      isLoggedIn ? socialNetwork.getFollowRequestStatus(targetPub) : Promise.resolve<FollowRequestStatus>('none'),
+    ]).then(([isLocked, requestStatus]) => {
+      if (!cancelled) {
+        setLocked(isLocked);
+        setStatus(requestStatus);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [socialNetwork, isReady, isLoggedIn, targetPub, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  const cancel = useCallback(async () => {
+    if (!socialNetwork) {
+      return { success: false, error: 'SocialNetwork not initialized' };
+    }
+    const result = await socialNetwork.cancelFollowRequest(targetPub);
+    if (result.success) {
+      setStatus('none');
+    }
+    return result;
+  }, [socialNetwork, targetPub]);
+
+  return { locked, status, loading, refresh, cancel };
+}
+
+interface UseAccountLockReturn {
+  locked: boolean;
+  setLocked: (locked: boolean) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for the lock (private account) setting of the current user
+ */
+export function useAccountLock(): UseAccountLockReturn {
+  const { userPub } = useShogun();
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [locked, setLockedState] = useState(false);
+
+  useEffect(() => {
+    if (!socialNetwork || !isReady || !userPub) {
+      return;
+    }
+    let cancelled = false;
+    socialNetwork.isAccountLocked(userPub).then((isLocked) => {
+      if (!cancelled) {
+        setLockedState(isLocked);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [socialNetwork, isReady, userPub]);
+
+  const setLocked = useCallback(
+    async (value: boolean) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      const result = await socialNetwork.setAccountLocked(value);
+      if (result.success) {
+        setLockedState(value);
+      }
+      return result;
+    },
+    [socialNetwork]
+  );
+
+  return { locked, setLocked };
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useShogun } from 'shogun-button-react';
+import { useSocialProtocol } from './useSocialProtocol';
+import { useFollow } from './useFollow';
+import type { FollowSuggestion } from '../utils/followSuggestions';
+
+interface UseFollowSuggestionsReturn {
+  suggestions: FollowSuggestion[]; // Best first
+  loading: boolean;
+  follow: (userPub: string) => Promise<{ success: boolean; error?: string }>;
+  dismiss: (userPub: string) => void;
+}
+
+/**
+ * Hook for "who to follow" suggestions of the current user
+ * Suggestions are recomputed when the following list changes.
+ */
+export function useFollowSuggestions(limit: number = 5): UseFollowSuggestionsReturn {
+  const { isLoggedIn } = useShogun();
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const { following, follow: followUser } = useFollow();
+  const [suggestions, setSuggestions] = useState<FollowSuggestion[]>([]);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!socialNetwork || !isReady || !isLoggedIn) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    socialNetwork
+      .getFollowSuggestions(limit + dismissed.length)
+      .then((found) => {
+        if (!cancelled) {
+          setSuggestions(found);
+        }
+      })
+      .catch((err) => console.error('Error loading follow suggestions:', err))
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Dismissing only filters the current list; it does not reload
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [socialNetwork, isReady, isLoggedIn, limit, following.length]);
+
+  const follow = useCallback(
+    async (userPub: string) => {
+      const result = await followUser(userPub);
+      if (result.success) {
+        setSuggestions((prev) => prev.filter((suggestion) => suggestion.pub !== userPub));
+      }
+      return result;
+    },
+    [followUser]
+  );
+
+  const dismiss = useCallback((userPub: string) => {
+    setDismissed((prev) => [...prev, userPub]);
+  }, []);
+
+  return {
+    suggestions: suggestions
+      .filter((suggestion) => !following.includes(suggestion.pub) && !dismissed.includes(suggestion.pub))
+      .slice(0, limit),
+    loading,
+    follow,
+    dismiss,
+  };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { PostInteraction } from '../utils/socialProtocol';
+
+export type InteractionKind = 'likes' | 'reposts';
+
+/**
+ * Hook for the users who liked or reposted a post
+ */
+export function useInteractionList(
+  postId: string | undefined,
+  kind: InteractionKind
+): { users: PostInteraction[]; loading: boolean } {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [users, setUsers] = useState<PostInteraction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setUsers([]);
+    if (!socialNetwork || !isReady || !postId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const load = kind === 'likes' ? socialNetwork.getPostLikes(postId) : socialNetwork.getPostReposts(postId);
+    load.then((list) => {
+      if (!cancelled) {
+        setUsers(list);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [socialNetwork, isReady, postId, kind]);
+
+  return { users, loading };
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+
+interface UseMediaUrlReturn {
+  url: string | null;
+  loading: boolean;
+}
+
+/**
+ * Hook for resolving a post's `media` field through the media store
+ * Object URLs created for stored blobs are revoked on unmount
+ */
+export function useMediaUrl(media?: string | null): UseMediaUrlReturn {
+  const { socialNetwork } = useSocialProtocol();
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(!!media);
+
+  useEffect(() => {
+    if (!media || !socialNetwork) {
+      setUrl(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setLoading(true);
+
+    socialNetwork
+      .resolveMediaUrl(media)
+      .then((resolved) => {
+        if (resolved && resolved.startsWith('blob:')) {
+          objectUrl = resolved;
+        }
+        if (cancelled) {
+          if (objectUrl) URL.revokeObjectURL(objectUrl);
+          return;
+        }
+        setUrl(resolved);
+      })
+      .catch((err) => {
+        console.error('Error resolving media:', err);
+        if (!cancelled) setUrl(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [media, socialNetwork]);
+
+  return {
+    url,
+    loading,
+  };
+}
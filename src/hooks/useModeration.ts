@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { ModerationList } from '../utils/socialProtocol';
+
+interface UseModerationReturn {
+  blocked: ModerationList['blocked'];
+  muted: ModerationList['muted'];
+  isBlocked: (userPub: string) => boolean;
+  isMuted: (userPub: string) => boolean;
+  unblock: (userPub: string) => Promise<{ success: boolean; error?: string }>;
+  mute: (userPub: string, durationMs?: number | null) => Promise<{ success: boolean; error?: string }>;
+  unmute: (userPub: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for the current user's block and mute lists
+ * Blocking goes through useFollow, which also removes follows both ways.
+ */
+export function useModeration(): UseModerationReturn {
+  const { socialNetwork } = useSocialProtocol();
+  const [list, setList] = useState<ModerationList>({ blocked: {}, muted: {} });
+
+  useEffect(() => {
+    if (!socialNetwork) {
+      return;
+    }
+    return socialNetwork.onModerationChange(setList);
+  }, [socialNetwork]);
+
+  const isBlocked = useCallback((userPub: string) => !!list.blocked[userPub], [list]);
+  const isMuted = useCallback((userPub: string) => !!list.muted[userPub], [list]);
+
+  const unblock = useCallback(
+    async (userPub: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.unblock(userPub);
+    },
+    [socialNetwork]
+  );
+
+  const mute = useCallback(
+    async (userPub: string, durationMs?: number | null) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.mute(userPub, durationMs);
+    },
+    [socialNetwork]
+  );
+
+  const unmute = useCallback(
+    async (userPub: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.unmute(userPub);
+    },
+    [socialNetwork]
+  );
+
+  return {
+    blocked: list.blocked,
+    muted: list.muted,
+    isBlocked,
+    isMuted,
+    unblock,
+    mute,
+    unmute,
+  };
+}
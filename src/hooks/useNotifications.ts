@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useShogun } from 'shogun-button-react';
+import { useSocialProtocol } from './useSocialProtocol';
+import { groupNotifications } from '../utils/notifications';
+import type { Notification, NotificationGroup } from '../utils/notifications';
+import type { NotificationReadState } from '../utils/socialProtocol';
+
+interface UseNotificationsReturn {
+  notifications: Notification[]; // Most recent first
+  groups: NotificationGroup[];
+  unreadCount: number;
+  loading: boolean;
+  isRead: (notification: Notification) => boolean;
+  markAsRead: (group: NotificationGroup) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+/**
+ * Hook for the current user's notifications inbox
+ */
+export function useNotifications(): UseNotificationsReturn {
+  const { isLoggedIn, userPub } = useShogun();
+  const { socialNetwork } = useSocialProtocol();
+  const [notificationsMap, setNotificationsMap] = useState<Map<string, Notification>>(new Map());
+  const [readState, setReadState] = useState<NotificationReadState>({ lastReadAt: 0, read: {} });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setNotificationsMap(new Map());
+    if (!socialNetwork || !isLoggedIn || !userPub) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    let cancelled = false;
+    socialNetwork.getNotificationReadState().then((state) => {
+      if (!cancelled) {
+        setReadState(state);
+        setLoading(false);
+      }
+    });
+
+    const cleanup = socialNetwork.viewNotifications((notification, id) => {
+      setNotificationsMap((prev) => {
+        const next = new Map(prev);
+        if (notification) {
+          next.set(id, notification);
+        } else {
+          next.delete(id);
+        }
+        return next;
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, [socialNetwork, isLoggedIn, userPub]);
+
+  const isRead = useCallback(
+    (notification: Notification): boolean =>
+      notification.timestamp <= readState.lastReadAt || !!readState.read[notification.id],
+    [readState]
+  );
+
+  const notifications = useMemo(
+    () => Array.from(notificationsMap.values()).sort((a, b) => b.timestamp - a.timestamp),
+    [notificationsMap]
+  );
+
+  const groups = useMemo(() => groupNotifications(notifications, isRead), [notifications, isRead]);
+
+  const unreadCount = useMemo(
+    () => notifications.filter((notification) => !isRead(notification)).length,
+    [notifications, isRead]
+  );
+
+  const markAsRead = useCallback(
+    async (group: NotificationGroup) => {
+      if (!socialNetwork) {
+        return;
+      }
+      const ids = group.notifications.filter((notification) => !isRead(notification)).map((n) => n.id);
+      if (ids.length === 0) {
+        return;
+      }
+
+      // Update local state immediately for better UX
+      setReadState((prev) => ({
+        ...prev,
+        read: { ...prev.read, ...Object.fromEntries(ids.map((id) => [id, true])) },
+      }));
+      try {
+        await socialNetwork.markNotificationsRead(ids);
+      } catch (err) {
+        console.error('Error marking notifications as read:', err);
+      }
+    },
+    [socialNetwork, isRead]
+  );
+
+  const markAllAsRead = useCallback(async () => {
+    if (!socialNetwork) {
+      return;
+    }
+
+    setReadState((prev) => ({ ...prev, lastReadAt: Date.now() }));
+    try {
+      await socialNetwork.markNotificationsRead();
+    } catch (err) {
+      console.error('Error marking notifications as read:', err);
+    }
+  }, [socialNetwork]);
+
+  return {
+    notifications,
+    groups,
+    unreadCount,
+    loading,
+    isRead,
+    markAsRead,
+    markAllAsRead,
+  };
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { PostWithAuthor } from '../utils/socialProtocol';
+
+/**
+ * Hook for the posts pinned to a user's profile, in pin order
+ */
+export function usePinnedPosts(userPub: string | undefined): PostWithAuthor[] {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [posts, setPosts] = useState<PostWithAuthor[]>([]);
+
+  useEffect(() => {
+    setPosts([]);
+    if (!socialNetwork || !isReady || !userPub) {
+      return;
+    }
+    return socialNetwork.viewPinnedPosts(userPub, setPosts);
+  }, [socialNetwork, isReady, userPub]);
+
+  return posts;
+}
+
+interface UsePinsReturn {
+  pinnedIds: string[];
+  isPinned: (postId: string) => boolean;
+  pin: (postId: string) => Promise<{ success: boolean; error?: string }>;
+  unpin: (postId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for managing the current user's pins
+ * @param userPub - the current user, or null to skip loading (e.g. on
+ * posts of other authors)
+ */
+export function usePins(userPub: string | null): UsePinsReturn {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [pinnedIds, setPinnedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setPinnedIds([]);
+    if (!socialNetwork || !isReady || !userPub) {
+      return;
+    }
+    return socialNetwork.viewPinnedPostIds(userPub, setPinnedIds);
+  }, [socialNetwork, isReady, userPub]);
+
+  const isPinned = useCallback((postId: string) => pinnedIds.includes(postId), [pinnedIds]);
+
+  const pin = useCallback(
+    async (postId: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.pinPost(postId);
+    },
+    [socialNetwork]
+  );
+
+  const unpin = useCallback(
+    async (postId: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return socialNetwork.unpinPost(postId);
+    },
+    [socialNetwork]
+  );
+
+  return { pinnedIds, isPinned, pin, unpin };
+}
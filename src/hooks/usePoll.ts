@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useShogun } from 'shogun-button-react';
+import { useSocialProtocol } from './useSocialProtocol';
+import { isPollClosed, tallyPoll, type Poll, type PollTally, type PollVote } from '../utils/polls';
+
+interface UsePollReturn {
+  tally: PollTally;
+  myVote: PollVote | null;
+  closed: boolean;
+  showResults: boolean; // Results stay hidden until the user votes or the poll closes
+  vote: (choices: number[]) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for the live tally of a post's poll and the current user's vote
+ */
+export function usePoll(postId: string, poll: Poll): UsePollReturn {
+  const { userPub } = useShogun();
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [votes, setVotes] = useState<Record<string, PollVote>>({});
+  const [closed, setClosed] = useState(() => isPollClosed(poll));
+
+  // A post's poll never changes: postId stands for it in the dependencies,
+  // so re-parsed copies of the same poll don't restart the subscription
+  useEffect(() => {
+    setVotes({});
+    if (!socialNetwork || !isReady) {
+      return;
+    }
+    return socialNetwork.viewPollVotes(postId, poll, (vote, voterPub) => {
+      setVotes((prev) => ({ ...prev, [voterPub]: vote }));
+    });
+  }, [socialNetwork, isReady, postId]);
+
+  // Reveal the results when the poll closes while it is on screen
+  useEffect(() => {
+    const remaining = poll.closesAt - Date.now();
+    if (remaining <= 0) {
+      setClosed(true);
+      return;
+    }
+    setClosed(false);
+    const timeoutId = setTimeout(() => setClosed(true), remaining);
+    return () => clearTimeout(timeoutId);
+  }, [postId, poll.closesAt]);
+
+  const vote = useCallback(
+    async (choices: number[]) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      const result = await socialNetwork.votePoll(postId, choices);
+      if (result.success && userPub) {
+        setVotes((prev) => ({ ...prev, [userPub]: { choices, timestamp: Date.now() } }));
+      }
+      return result;
+    },
+    [socialNetwork, postId, userPub]
+  );
+
+  const myVote = (userPub && votes[userPub]) || null;
+
+  return {
+    tally: tallyPoll(poll, votes),
+    myVote,
+    closed,
+    showResults: closed || !!myVote,
+    vote,
+  };
+}
@@ -1,6 +1,7 @@
-import { useState, useCallback } from 'react';
+import { useEffect, useCallback } from 'react';
 import { useShogun } from 'shogun-button-react';
-import { getCurrentUserPub } from '../utils/gunHelpers';
+import { useSocialProtocol } from './useSocialProtocol';
+import { countInteractions, hasInteracted } from '../utils/interactions';
 import type { Post } from '../utils/postUtils';
 
 interface UsePostInteractionsReturn {
@@ -15,228 +16,34 @@ interface UsePostInteractionsReturn {
   getRepostCount: (post: Post) => number;
 }
 
+// The legacy interactions migration runs at most once per page load
+let migrationStarted = false;
+
 /**
- * Hook for managing post interactions (like, repost, reply) in GunDB
+ * Hook for managing post interactions (like, repost, reply)
+ * Thin wrapper around the interactions methods of SocialNetwork.
  */
 export function usePostInteractions(): UsePostInteractionsReturn {
-  const { sdk, core, isLoggedIn } = useShogun();
-  const shogunCore = sdk || core;
-
-  // Like a post
-  const likePost = useCallback(
-    async (postId: string): Promise<{ success: boolean; error?: string }> => {
-      if (!shogunCore?.gun || !isLoggedIn) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const userPub = getCurrentUserPub(shogunCore.gun);
-      if (!userPub) {
-        const user = shogunCore.gun.user();
-        if (user && user.is && user.is.pub) {
-          const actualUserPub = user.is.pub;
-          try {
-            const gun = shogunCore.gun;
-            const appName = 'shogun-mistodon-clone-v1';
-            gun.get(appName).get('posts').get(postId).get('likes').get(actualUserPub).put(true);
-            gun.get('interactions').get('posts').get(postId).get('likes').get(actualUserPub).put(true);
-            console.log('Liked post:', postId);
-            return { success: true };
-          } catch (err) {
-            console.error('Error liking post:', err);
-            return { success: false, error: 'Failed to like post' };
-          }
-        }
-        return { success: false, error: 'User not authenticated' };
-      }
-
-      try {
-        const gun = shogunCore.gun;
-        // Save likes in separate node since posts are immutable (content-addressed)
-        // Use app-specific node for interactions
-        const appName = 'shogun-mistodon-clone-v1';
-        gun.get(appName).get('posts').get(postId).get('likes').get(userPub).put(true);
-        // Also save in global interactions node for compatibility
-        gun.get('interactions').get('posts').get(postId).get('likes').get(userPub).put(true);
-        console.log('Liked post:', postId);
-        return { success: true };
-      } catch (err) {
-        console.error('Error liking post:', err);
-        return { success: false, error: 'Failed to like post' };
-      }
-    },
-    [shogunCore, isLoggedIn]
-  );
-
-  // Unlike a post
-  const unlikePost = useCallback(
-    async (postId: string): Promise<{ success: boolean; error?: string }> => {
-      if (!shogunCore?.gun || !isLoggedIn) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const userPub = getCurrentUserPub(shogunCore.gun);
-      if (!userPub) {
-        const user = shogunCore.gun.user();
-        if (user && user.is && user.is.pub) {
-          const actualUserPub = user.is.pub;
-          try {
-            const gun = shogunCore.gun;
-            const appName = 'shogun-mistodon-clone-v1';
-            gun.get(appName).get('posts').get(postId).get('likes').get(actualUserPub).put(null);
-            gun.get('interactions').get('posts').get(postId).get('likes').get(actualUserPub).put(null);
-            console.log('Unliked post:', postId);
-            return { success: true };
-          } catch (err) {
-            console.error('Error unliking post:', err);
-            return { success: false, error: 'Failed to unlike post' };
-          }
-        }
-        return { success: false, error: 'User not authenticated' };
-      }
-
-      try {
-        const gun = shogunCore.gun;
-        const appName = 'shogun-mistodon-clone-v1';
-        gun.get(appName).get('posts').get(postId).get('likes').get(userPub).put(null);
-        gun.get('interactions').get('posts').get(postId).get('likes').get(userPub).put(null);
-        console.log('Unliked post:', postId);
-        return { success: true };
-      } catch (err) {
-        console.error('Error unliking post:', err);
-        return { success: false, error: 'Failed to unlike post' };
-      }
-    },
-    [shogunCore, isLoggedIn]
-  );
-
-  // Repost
-  const repost = useCallback(
-    async (postId: string): Promise<{ success: boolean; error?: string }> => {
-      if (!shogunCore?.gun || !isLoggedIn) {
+  const { isLoggedIn, userPub } = useShogun();
+  const { socialNetwork } = useSocialProtocol();
+
+  const runInteraction = useCallback(
+    async (
+      action: 'like' | 'unlike' | 'repost' | 'unrepost',
+      postId: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      if (!socialNetwork || !isLoggedIn) {
         return { success: false, error: 'Not authenticated' };
       }
-
-      const gun = shogunCore.gun;
-      const user = gun.user();
-      let userPub = getCurrentUserPub(gun);
-      
-      if (!userPub && user && user.is && user.is.pub) {
-        userPub = user.is.pub;
-      }
-      
-      if (!userPub || !user || !user.is || !user.is.pub) {
-        return { success: false, error: 'User not authenticated' };
-      }
-
-      try {
-        // Get the original post (content-addressed - try to get from #posts first)
-        let originalPost: any = null;
-        
-        // Try to get from #posts using hash (content-addressed)
-        const SEA = (gun as any).SEA;
-        if (SEA) {
-          // postId might be a hash, try to get soul from #posts
-          const postSoul = await new Promise<string | null>((resolve) => {
-            gun.get('#posts').get(postId).once((soul: string) => {
-              resolve(soul && typeof soul === 'string' ? soul : null);
-            });
-          });
-          
-          if (postSoul) {
-            originalPost = await new Promise<any>((resolve) => {
-              gun.get(postSoul).once((data: any) => {
-                if (data && typeof data === 'object') {
-                  const { _, ...post } = data;
-                  resolve(post);
-                } else {
-                  resolve(null);
-                }
-              });
-            });
-          }
-        }
-        
-        // Fallback: try to get from app posts node
-        if (!originalPost) {
-          originalPost = await new Promise<any>((resolve) => {
-            gun.get('shogun-mistodon-clone-v1').get('posts').get(postId).once((data: any) => {
-              if (data && typeof data === 'object') {
-                const { _, ...post } = data;
-                resolve(post);
-              } else {
-                resolve(null);
-              }
-            });
-          });
-        }
-
-        if (!originalPost) {
-          return { success: false, error: 'Post not found' };
-        }
-
-        const repostTimestamp = originalPost.timestamp || Date.now();
-
-        // Save repost reference in interactions node (posts are immutable)
-        const appName = 'shogun-mistodon-clone-v1';
-        gun.get(appName).get('posts').get(postId).get('reposts').get(userPub).put({ timestamp: Date.now() });
-        gun.get('interactions').get('posts').get(postId).get('reposts').get(userPub).put({ timestamp: Date.now() });
-        
-        // Add to user's posts index so it appears in profile (using hash/postId)
-        user.get('posts').get(postId).put({ id: postId, timestamp: repostTimestamp, reposted: true });
-        
-        // Also save to users/{userPub}/posts for profile view
-        gun.get('users').get(userPub).get('posts').get(postId).put({ id: postId, timestamp: repostTimestamp, reposted: true });
-        
-        console.log('Reposted:', postId, 'added to profile of user:', userPub);
-        return { success: true };
-      } catch (err) {
-        console.error('Error reposting:', err);
-        return { success: false, error: 'Failed to repost' };
-      }
+      return socialNetwork[action](postId);
     },
-    [shogunCore, isLoggedIn]
+    [socialNetwork, isLoggedIn]
   );
 
-  // Unrepost
-  const unrepost = useCallback(
-    async (postId: string): Promise<{ success: boolean; error?: string }> => {
-      if (!shogunCore?.gun || !isLoggedIn) {
-        return { success: false, error: 'Not authenticated' };
-      }
-
-      const gun = shogunCore.gun;
-      const user = gun.user();
-      let userPub = getCurrentUserPub(gun);
-      
-      if (!userPub && user && user.is && user.is.pub) {
-        userPub = user.is.pub;
-      }
-      
-      if (!userPub || !user || !user.is || !user.is.pub) {
-        return { success: false, error: 'User not authenticated' };
-      }
-
-      try {
-        // Remove repost reference from interactions node (posts are immutable)
-        const appName = 'shogun-mistodon-clone-v1';
-        gun.get(appName).get('posts').get(postId).get('reposts').get(userPub).put(null);
-        gun.get('interactions').get('posts').get(postId).get('reposts').get(userPub).put(null);
-        
-        // Remove from user's posts index
-        user.get('posts').get(postId).put(null);
-        
-        // Remove from users/{userPub}/posts for profile view
-        gun.get('users').get(userPub).get('posts').get(postId).put(null);
-        
-        console.log('Unreposted:', postId, 'removed from profile of user:', userPub);
-        return { success: true };
-      } catch (err) {
-        console.error('Error unreposting:', err);
-        return { success: false, error: 'Failed to unrepost' };
-      }
-    },
-    [shogunCore, isLoggedIn]
-  );
+  const likePost = useCallback((postId: string) => runInteraction('like', postId), [runInteraction]);
+  const unlikePost = useCallback((postId: string) => runInteraction('unlike', postId), [runInteraction]);
+  const repost = useCallback((postId: string) => runInteraction('repost', postId), [runInteraction]);
+  const unrepost = useCallback((postId: string) => runInteraction('unrepost', postId), [runInteraction]);
 
   // Reply to a post (uses content-addressed storage via socialProtocol)
   // Note: This should ideally use publishPost from useSocialProtocol with replyToId
@@ -253,77 +60,19 @@ export function usePostInteractions(): UsePostInteractionsReturn {
     []
   );
 
-  // Check if post is liked by current user
   const isLiked = useCallback(
-    (post: Post): boolean => {
-      if (!shogunCore?.gun || !isLoggedIn) {
-        return false;
-      }
-
-      const userPub = getCurrentUserPub(shogunCore.gun);
-      if (!userPub) {
-        const user = shogunCore.gun.user();
-        if (user && user.is && user.is.pub) {
-          const actualUserPub = user.is.pub;
-          return !!(post.likes && post.likes[actualUserPub]);
-        }
-        return false;
-      }
-
-      if (!post.likes) {
-        return false;
-      }
-
-      return !!post.likes[userPub];
-    },
-    [shogunCore, isLoggedIn]
+    (post: Post): boolean => isLoggedIn && hasInteracted(post.likes, userPub),
+    [isLoggedIn, userPub]
   );
 
-  // Check if post is reposted by current user
   const isReposted = useCallback(
-    (post: Post): boolean => {
-      if (!shogunCore?.gun || !isLoggedIn) {
-        return false;
-      }
-
-      const userPub = getCurrentUserPub(shogunCore.gun);
-      if (!userPub) {
-        const user = shogunCore.gun.user();
-        if (user && user.is && user.is.pub) {
-          const actualUserPub = user.is.pub;
-          const repostValue = post.reposts && post.reposts[actualUserPub];
-          // Check if repost exists (could be true, or an object like { timestamp: ... })
-          return !!(repostValue && (repostValue === true || (typeof repostValue === 'object' && !repostValue._)));
-        }
-        return false;
-      }
-
-      if (!post.reposts) {
-        return false;
-      }
-
-      const repostValue = post.reposts[userPub];
-      // Check if repost exists (could be true, or an object like { timestamp: ... })
-      return !!(repostValue && (repostValue === true || (typeof repostValue === 'object' && !repostValue._)));
-    },
-    [shogunCore, isLoggedIn]
+    (post: Post): boolean => isLoggedIn && hasInteracted(post.reposts, userPub),
+    [isLoggedIn, userPub]
   );
 
-  // Get like count
-  const getLikeCount = useCallback((post: Post): number => {
-    if (!post.likes) {
-      return 0;
-    }
-    return Object.keys(post.likes).filter((key) => post.likes![key] && !key.startsWith('_')).length;
-  }, []);
+  const getLikeCount = useCallback((post: Post): number => countInteractions(post.likes), []);
 
-  // Get repost count
-  const getRepostCount = useCallback((post: Post): number => {
-    if (!post.reposts) {
-      return 0;
-    }
-    return Object.keys(post.reposts).filter((key) => post.reposts![key] && !key.startsWith('_')).length;
-  }, []);
+  const getRepostCount = useCallback((post: Post): number => countInteractions(post.reposts), []);
 
   return {
     likePost,
@@ -338,3 +87,29 @@ export function usePostInteractions(): UsePostInteractionsReturn {
   };
 }
 
+/**
+ * Merge likes and reposts written by older clients into the canonical
+ * interactions nodes (see migrateLegacyInteractions)
+ * Mounted once by the app layout.
+ */
+export function useInteractionsMigration(): void {
+  const { socialNetwork, isReady } = useSocialProtocol();
+
+  useEffect(() => {
+    if (!socialNetwork || !isReady || migrationStarted) {
+      return;
+    }
+    migrationStarted = true;
+    const migrate = async () => {
+      try {
+        const { migrated } = await socialNetwork.migrateLegacyInteractions();
+        if (migrated > 0) {
+          console.log('Migrated legacy interactions:', migrated);
+        }
+      } catch (error) {
+        console.error('Error migrating legacy interactions:', error);
+      }
+    };
+    migrate();
+  }, [socialNetwork, isReady]);
+}
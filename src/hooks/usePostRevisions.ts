@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { PostRevision } from '../utils/socialProtocol';
+
+interface UsePostRevisionsReturn {
+  revisions: PostRevision[]; // Newest first
+  latest: PostRevision | null;
+  isEdited: boolean;
+}
+
+/**
+ * Hook for loading the revision history of an edited post
+ */
+export function usePostRevisions(postId: string, authorPub: string): UsePostRevisionsReturn {
+  const { socialNetwork } = useSocialProtocol();
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+
+  useEffect(() => {
+    setRevisions([]);
+    if (!socialNetwork || !postId || !authorPub) {
+      return;
+    }
+
+    const revisionsMap = new Map<number, PostRevision>();
+    const cleanup = socialNetwork.viewPostRevisions(postId, authorPub, (revision) => {
+      revisionsMap.set(revision.editedAt, revision);
+      setRevisions(Array.from(revisionsMap.values()).sort((a, b) => b.editedAt - a.editedAt));
+    });
+
+    return cleanup;
+  }, [socialNetwork, postId, authorPub]);
+
+  return {
+    revisions,
+    latest: revisions[0] || null,
+    isEdited: revisions.length > 0,
+  };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { PostWithAuthor } from '../utils/socialProtocol';
+
+interface UseQuotedPostReturn {
+  post: PostWithAuthor | null;
+  loading: boolean;
+  unavailable: boolean; // Deleted, unreadable or from a hidden author
+}
+
+/**
+ * Hook for loading the original of a quote post
+ */
+export function useQuotedPost(postId: string | undefined): UseQuotedPostReturn {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [post, setPost] = useState<PostWithAuthor | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setPost(null);
+    if (!socialNetwork || !isReady || !postId) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    socialNetwork.getQuotedPost(postId).then((quoted) => {
+      if (!cancelled) {
+        setPost(quoted);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [socialNetwork, isReady, postId]);
+
+  return { post, loading, unavailable: !!postId && !loading && !post };
+}
+
+/**
+ * Hook for the posts quoting a post, newest first
+ */
+export function useQuotes(postId: string): PostWithAuthor[] {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [quotes, setQuotes] = useState<PostWithAuthor[]>([]);
+
+  useEffect(() => {
+    setQuotes([]);
+    if (!socialNetwork || !isReady || !postId) {
+      return;
+    }
+
+    const quotesMap = new Map<string, PostWithAuthor>();
+    return socialNetwork.viewQuotes(postId, (quote) => {
+      quotesMap.set(quote.id, quote);
+      setQuotes(Array.from(quotesMap.values()).sort((a, b) => b.timestamp - a.timestamp));
+    });
+  }, [socialNetwork, isReady, postId]);
+
+  return quotes;
+}
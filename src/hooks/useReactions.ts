@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useShogun } from 'shogun-button-react';
+import { useSocialProtocol } from './useSocialProtocol';
+import { REACTION_EMOJIS, type ReactionTally } from '../utils/reactions';
+
+interface UseReactionsReturn {
+  tally: ReactionTally;
+  myReactions: string[];
+  toggleReaction: (emoji: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Hook for the live emoji reactions to a post and the current user's ones
+ */
+export function useReactions(postId: string): UseReactionsReturn {
+  const { userPub } = useShogun();
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [tally, setTally] = useState<ReactionTally>({});
+
+  useEffect(() => {
+    setTally({});
+    if (!socialNetwork || !isReady || !postId) {
+      return;
+    }
+    return socialNetwork.viewReactions(postId, setTally);
+  }, [socialNetwork, isReady, postId]);
+
+  const myReactions = userPub ? REACTION_EMOJIS.filter((emoji) => tally[emoji]?.includes(userPub)) : [];
+
+  const toggleReaction = useCallback(
+    async (emoji: string) => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+      return userPub && tally[emoji]?.includes(userPub)
+        ? socialNetwork.unreact(postId, emoji)
+        : socialNetwork.react(postId, emoji);
+    },
+    [socialNetwork, postId, userPub, tally]
+  );
+
+  return { tally, myReactions, toggleReaction };
+}
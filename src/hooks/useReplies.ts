@@ -1,6 +1,11 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useShogun } from 'shogun-button-react';
-import type { Post } from '../utils/postUtils';
+import { useSocialProtocol } from './useSocialProtocol';
+import { useContentFilters } from './useContentFilters';
+import { applyContentFilters } from '../utils/contentFilters';
+import { isSealedVisibility, parseContentWarning, parseMentions, parseVisibility, type Post } from '../utils/postUtils';
+import { parsePoll } from '../utils/polls';
+import { verifyPostSoul } from '../utils/postVerification';
 
 interface UseRepliesReturn {
   replies: Post[];
@@ -13,8 +18,11 @@ interface UseRepliesReturn {
 export function useReplies(postId: string): UseRepliesReturn {
   const { sdk, core } = useShogun();
   const shogunCore = sdk || core;
+  const { socialNetwork } = useSocialProtocol();
+  const { filters } = useContentFilters();
   const [replies, setReplies] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
+  const [moderationVersion, setModerationVersion] = useState(0);
 
   const loadReplies = useCallback(() => {
     if (!shogunCore?.gun || !postId) {
@@ -35,7 +43,7 @@ export function useReplies(postId: string): UseRepliesReturn {
       gun.get('#posts').get(replyHash).once((replySoul: string) => {
         if (replySoul && typeof replySoul === 'string') {
           // Get the actual reply data using the soul (content-addressed)
-          gun.get(replySoul).once((replyData: any) => {
+          gun.get(replySoul).once(async (replyData: any) => {
             if (!replyData || typeof replyData !== 'object' || replyData._ === null) {
               // Filter out null or undefined data (deleted replies)
               if (repliesMap.has(replyHash)) {
@@ -56,14 +64,40 @@ export function useReplies(postId: string): UseRepliesReturn {
             const replyContent = replyPostData.text || replyPostData.content || '';
 
             if (replyAuthor && replyContent) {
+              // Only trust replies stored in the author's signed graph
+              const verified = await verifyPostSoul(gun, replyHash, replySoul, replyAuthor);
+              if (!verified) {
+                console.warn('Dropping unverified reply:', replyHash, replySoul);
+                return;
+              }
+
+              // Encrypted replies are shown to their readers only
+              const content =
+                isSealedVisibility(replyPostData.visibility)
+                  ? await socialNetwork?.openPostContent(replyPostData)
+                  : {
+                      text: replyContent,
+                      mentions: parseMentions(replyPostData.mentions),
+                      poll: parsePoll(replyPostData.poll),
+                      contentWarning: parseContentWarning(replyPostData.contentWarning),
+                    };
+              if (!content) {
+                return;
+              }
+
               const reply: Post = {
                 id: replyHash,
                 author: replyAuthor,
-                content: replyContent,
+                content: content.text,
                 timestamp: replyTimestamp,
                 likes: replyPostData.likes || {},
                 reposts: replyPostData.reposts || {},
                 replyTo: replyPostData.replyTo || postId,
+                mentions: content.mentions,
+                poll: content.poll || undefined,
+                contentWarning: content.contentWarning || undefined,
+                visibility: parseVisibility(replyPostData.visibility),
+                quoteOf: replyPostData.quoteOf || undefined,
               };
 
               repliesMap.set(replyHash, reply);
@@ -130,15 +164,34 @@ export function useReplies(postId: string): UseRepliesReturn {
         console.error('Error cleaning up replies listeners:', e);
       }
     };
-  }, [shogunCore, postId]);
+  }, [shogunCore, postId, socialNetwork]);
 
   useEffect(() => {
     const cleanup = loadReplies();
     return cleanup;
   }, [loadReplies]);
 
+  // Re-filter when the block/mute lists change
+  useEffect(() => {
+    if (!socialNetwork) {
+      return;
+    }
+    return socialNetwork.onModerationChange(() => setModerationVersion((version) => version + 1));
+  }, [socialNetwork]);
+
+  const visibleReplies = useMemo(
+    () =>
+      applyContentFilters(
+        replies.filter((reply) => !socialNetwork || !socialNetwork.isAuthorHidden(reply.author)),
+        filters,
+        'replies'
+      ),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [replies, socialNetwork, moderationVersion, filters]
+  );
+
   return {
-    replies,
+    replies: visibleReplies,
     loading,
   };
 }
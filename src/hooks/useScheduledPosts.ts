@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useShogun } from 'shogun-button-react';
+import { useSocialProtocol } from './useSocialProtocol';
+import {
+  loadScheduledPosts,
+  saveScheduledPosts,
+  validateScheduleTime,
+  type ScheduledPost,
+} from '../utils/scheduledPosts';
+
+// How often the publisher looks for due posts
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Every mounted hook is told about changes made by another one
+const listeners = new Set<() => void>();
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+interface UseScheduledPostsReturn {
+  posts: ScheduledPost[];
+  schedule: (post: Omit<ScheduledPost, 'id' | 'createdAt'>) => { success: boolean; error?: string };
+  update: (
+    id: string,
+    changes: Partial<Pick<ScheduledPost, 'text' | 'scheduledAt'>>
+  ) => { success: boolean; error?: string };
+  cancel: (id: string) => void;
+}
+
+/**
+ * Hook for the current user's queue of scheduled posts (stored on this device)
+ */
+export function useScheduledPosts(): UseScheduledPostsReturn {
+  const { userPub } = useShogun();
+  const [posts, setPosts] = useState<ScheduledPost[]>([]);
+
+  useEffect(() => {
+    if (!userPub) {
+      setPosts([]);
+      return;
+    }
+    const refresh = () => setPosts(loadScheduledPosts(userPub));
+    refresh();
+    listeners.add(refresh);
+    return () => {
+      listeners.delete(refresh);
+    };
+  }, [userPub]);
+
+  const schedule = useCallback(
+    (post: Omit<ScheduledPost, 'id' | 'createdAt'>) => {
+      if (!userPub) {
+        return { success: false, error: 'Please sign in to schedule posts' };
+      }
+      const timeError = validateScheduleTime(post.scheduledAt);
+      if (timeError) {
+        return { success: false, error: timeError };
+      }
+      const createdAt = Date.now();
+      const id = `${createdAt}_${Math.random().toString(36).slice(2, 8)}`;
+      saveScheduledPosts(userPub, [...loadScheduledPosts(userPub), { ...post, id, createdAt }]);
+      notifyListeners();
+      return { success: true };
+    },
+    [userPub]
+  );
+
+  const update = useCallback(
+    (id: string, changes: Partial<Pick<ScheduledPost, 'text' | 'scheduledAt'>>) => {
+      if (!userPub) {
+        return { success: false, error: 'Please sign in to schedule posts' };
+      }
+      const timeError = changes.scheduledAt !== undefined && validateScheduleTime(changes.scheduledAt);
+      if (timeError) {
+        return { success: false, error: timeError };
+      }
+      // Editing a post that failed to publish queues it again
+      saveScheduledPosts(
+        userPub,
+        loadScheduledPosts(userPub).map((post) =>
+          post.id === id ? { ...post, ...changes, error: undefined } : post
+        )
+      );
+      notifyListeners();
+      return { success: true };
+    },
+    [userPub]
+  );
+
+  const cancel = useCallback(
+    (id: string) => {
+      if (!userPub) {
+        return;
+      }
+      saveScheduledPosts(userPub, loadScheduledPosts(userPub).filter((post) => post.id !== id));
+      notifyListeners();
+    },
+    [userPub]
+  );
+
+  return { posts, schedule, update, cancel };
+}
+
+/**
+ * Publish the current user's scheduled posts when they are due
+ * Mounted once by the app layout; a post is taken off the queue before
+ * publishing so that two open tabs don't publish it twice.
+ */
+export function useScheduledPublisher(): void {
+  const { userPub } = useShogun();
+  const { publishPost, isReady } = useSocialProtocol();
+
+  useEffect(() => {
+    if (!userPub || !isReady) {
+      return;
+    }
+
+    const publishDue = async () => {
+      const queue = loadScheduledPosts(userPub);
+      const now = Date.now();
+      const due = queue.filter((post) => post.scheduledAt <= now && !post.error);
+      if (due.length === 0) {
+        return;
+      }
+      saveScheduledPosts(userPub, queue.filter((post) => !due.includes(post)));
+      notifyListeners();
+
+      for (const post of due) {
+        const result = await publishPost(
+          post.text,
+          null,
+          post.replyToId,
+          post.visibility,
+          post.quoteOf,
+          post.poll,
+          post.contentWarning
+        );
+        if (!result.success) {
+          console.error('Failed to publish scheduled post:', result.error);
+          saveScheduledPosts(userPub, [
+            ...loadScheduledPosts(userPub),
+            { ...post, error: result.error || 'Failed to publish post' },
+          ]);
+          notifyListeners();
+        }
+      }
+    };
+
+    publishDue();
+    const intervalId = setInterval(publishDue, CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [userPub, isReady, publishPost]);
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { SearchResults } from '../utils/socialProtocol';
+
+const EMPTY_RESULTS: SearchResults = { posts: [], users: [], tags: [] };
+
+interface UseSearchReturn {
+  results: SearchResults;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Hook for full-text search over posts, profiles and hashtags
+ */
+export function useSearch(query: string): UseSearchReturn {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [results, setResults] = useState<SearchResults>(EMPTY_RESULTS);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setResults(EMPTY_RESULTS);
+    setError(null);
+    if (!socialNetwork || !isReady || !query.trim()) {
+      return;
+    }
+
+    // Ignore the answer of a query that was replaced meanwhile
+    let cancelled = false;
+    setLoading(true);
+    socialNetwork
+      .search(query)
+      .then((found) => {
+        if (!cancelled) {
+          setResults(found);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Search failed');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [socialNetwork, isReady, query]);
+
+  return { results, loading, error };
+}
@@ -2,10 +2,13 @@
  * React hook for using the SocialNetwork protocol
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useShogun } from 'shogun-button-react';
-import { SocialNetwork, type PostWithAuthor, type UserProfile } from '../utils/socialProtocol';
-import type { Post } from '../utils/postUtils';
+import type { SocialNetwork, PostWithAuthor, UserProfile } from '../utils/socialProtocol';
+import type { Post, PostVisibility } from '../utils/postUtils';
+import type { NewPoll } from '../utils/polls';
+import { applyContentFilters, type FilterContext } from '../utils/contentFilters';
+import { useSocialNetwork } from '../components/SocialNetworkProvider';
 
 export interface UseSocialProtocolReturn {
   socialNetwork: SocialNetwork | null;
@@ -15,19 +18,37 @@ export interface UseSocialProtocolReturn {
   loading: boolean;
   error: string | null;
   hasMore: boolean; // Whether there are more posts to load
+  loadingMore: boolean; // Whether an older timeline page is being fetched
   loadMore: () => void; // Load more posts
   publishPost: (
     text: string,
     mediaFile?: Blob | null,
-    replyToId?: string | null
+    replyToId?: string | null,
+    visibility?: PostVisibility,
+    quoteOf?: string | null,
+    poll?: NewPoll | null,
+    contentWarning?: string | null,
+    sensitive?: boolean
   ) => Promise<{ success: boolean; error?: string; id?: string }>;
+  publishThread: (
+    parts: string[],
+    mediaFile?: Blob | null,
+    replyToId?: string | null,
+    visibility?: PostVisibility,
+    quoteOf?: string | null,
+    poll?: NewPoll | null,
+    contentWarning?: string | null,
+    sensitive?: boolean
+  ) => Promise<{ success: boolean; error?: string; id?: string; ids?: string[] }>;
   viewGlobalTimeline: () => void;
   viewFollowingTimeline: (followingList: string[]) => void;
   viewHashtag: (hashtag: string) => void;
+  viewMentions: (userPub: string) => void;
   clearTimeline: () => void;
   getUserProfile: (userPub: string) => Promise<UserProfile>;
   updateProfile: (profileData: Partial<UserProfile>) => Promise<void>;
   deletePost: (postId: string) => Promise<{ success: boolean; error?: string }>;
+  editPost: (postId: string, newText: string) => Promise<{ success: boolean; error?: string }>;
   // New bidirectional navigation methods (GUN Design Pattern)
   getUserPosts: (userPub: string, callback: (post: PostWithAuthor) => void) => () => void;
   getPostTags: (postId: string, callback: (tag: { name: string; slug: string }) => void) => () => void;
@@ -38,22 +59,20 @@ export interface UseSocialProtocolReturn {
 
 /**
  * Hook for managing social network protocol
+ * The SocialNetwork instance is shared through SocialNetworkProvider;
+ * timeline state is per hook.
  */
 export function useSocialProtocol(): UseSocialProtocolReturn {
-  const { sdk, core, isLoggedIn } = useShogun();
-  const shogunCore = sdk || core;
-  const shogunCoreRef = useRef(shogunCore);
-  
-  // Keep ref updated
-  useEffect(() => {
-    shogunCoreRef.current = shogunCore;
-  }, [shogunCore]);
+  const { isLoggedIn } = useShogun();
+  const { socialNetwork, isReady, error: networkError, contentFilters } = useSocialNetwork();
   /**
    * Pagination Strategy for Scalability:
    * 
    * With potentially thousands of posts in GunDB, we implement:
    * 1. Initial load: Only show first 20 posts (INITIAL_POSTS_LIMIT)
    * 2. Infinite scroll: Load 20 more posts when user scrolls near bottom
+   *    (global timeline fetches older date buckets through a cursor once
+   *    everything already in memory is displayed)
    * 3. Memory limit: Keep max 500 posts in memory to prevent performance issues
    * 4. Chronological sorting: Always sort by timestamp (newest first)
    * 
@@ -67,42 +86,40 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
   const LOAD_MORE_INCREMENT = 20; // How many more posts to load each time
   const MAX_POSTS_IN_MEMORY = 500; // Maximum posts to keep in memory
 
-  const [socialNetwork, setSocialNetwork] = useState<SocialNetwork | null>(null);
-  const [isReady, setIsReady] = useState(false);
   const [posts, setPosts] = useState<PostWithAuthor[]>([]); // All loaded posts
   const [displayedCount, setDisplayedCount] = useState(INITIAL_POSTS_LIMIT); // Number of posts to display
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasOlderPosts, setHasOlderPosts] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
+  // Which filter context the current feed belongs to (null: unfiltered)
+  const [feedContext, setFeedContext] = useState<FilterContext | null>(null);
+
+  // Cursor for the next (older) global timeline page
+  const timelineCursorRef = useRef<string | null>(null);
+  // Incremented on every timeline switch so stale page responses are dropped
+  const timelineGenerationRef = useRef(0);
+  // Feeds paginated posts through the same pipeline as live ones
+  const ingestPostRef = useRef<((post: PostWithAuthor) => void) | null>(null);
   // Track processed posts to avoid duplicates
   const processedPostsRef = useRef<Set<string>>(new Set());
   // Track active listeners
   const listenersRef = useRef<Map<string, () => void>>(new Map());
   // Debounce timer for state updates
   const updateTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Current network, for filtering blocked/muted authors inside stable callbacks
+  const socialNetworkRef = useRef<SocialNetwork | null>(null);
 
-  // Initialize SocialNetwork instance
+  // Hide already loaded posts as soon as their author is blocked or muted
   useEffect(() => {
-    if (!shogunCore?.gun) {
-      setIsReady(false);
-      setSocialNetwork(null);
+    socialNetworkRef.current = socialNetwork;
+    if (!socialNetwork) {
       return;
     }
-
-    try {
-      const network = new SocialNetwork({
-        appName: 'shogun-mistodon-clone-v1',
-        shogunCore,
-      });
-      setSocialNetwork(network);
-      setIsReady(true);
-      setError(null);
-    } catch (err) {
-      console.error('Error initializing SocialNetwork:', err);
-      setError(err instanceof Error ? err.message : 'Failed to initialize social network');
-      setIsReady(false);
-    }
-  }, [shogunCore]);
+    return socialNetwork.onModerationChange(() => {
+      setPosts((prev) => prev.filter((post) => !socialNetwork.isAuthorHidden(post.author)));
+    });
+  }, [socialNetwork]);
 
   // Debounced state update function with sorting and limiting
   const debouncedUpdatePosts = useCallback((newPosts: PostWithAuthor[]) => {
@@ -111,8 +128,11 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
     }
 
     updateTimerRef.current = setTimeout(() => {
-      // Sort by timestamp (newest first)
-      const sortedPosts = [...newPosts].sort((a, b) => b.timestamp - a.timestamp);
+      // Drop authors blocked/muted since the post was loaded, then sort (newest first)
+      const network = socialNetworkRef.current;
+      const sortedPosts = newPosts
+        .filter((post) => !network || !network.isAuthorHidden(post.author))
+        .sort((a, b) => b.timestamp - a.timestamp);
       
       // Limit posts in memory to prevent memory issues
       const limitedPosts = sortedPosts.slice(0, MAX_POSTS_IN_MEMORY);
@@ -122,6 +142,35 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
     }, 100); // 100ms debounce
   }, []);
 
+  // Drop any pending global timeline pagination
+  const resetPagination = useCallback(() => {
+    timelineGenerationRef.current++;
+    timelineCursorRef.current = null;
+    ingestPostRef.current = null;
+    setHasOlderPosts(false);
+    setLoadingMore(false);
+  }, []);
+
+  // Keep the likes and reposts of a loaded post live
+  const watchInteractions = useCallback(
+    (postId: string, postsMap: Map<string, PostWithAuthor>) => {
+      if (!socialNetwork) {
+        return;
+      }
+      (['likes', 'reposts'] as const).forEach((kind) => {
+        const cleanup = socialNetwork.viewInteractions(postId, kind, (entries) => {
+          const currentPost = postsMap.get(postId);
+          if (currentPost) {
+            postsMap.set(postId, { ...currentPost, [kind]: entries });
+            debouncedUpdatePosts(Array.from(postsMap.values()));
+          }
+        });
+        listenersRef.current.set(`${postId}_${kind}`, cleanup);
+      });
+    },
+    [socialNetwork, debouncedUpdatePosts]
+  );
+
   // View global timeline
   const viewGlobalTimeline = useCallback(() => {
     if (!socialNetwork) {
@@ -142,10 +191,14 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
 
     setLoading(true);
     setError(null);
+    setFeedContext('global');
 
     const postsMap = new Map<string, PostWithAuthor>();
+    const generation = ++timelineGenerationRef.current;
+    timelineCursorRef.current = null;
+    setHasOlderPosts(false);
 
-    const cleanup = socialNetwork.viewGlobalTimeline((post: PostWithAuthor) => {
+    const ingestPost = (post: PostWithAuthor) => {
       const postId = post.id || ('id' in post ? (post as any).id : null);
       if (!postId) {
         return;
@@ -166,69 +219,34 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
 
       postsMap.set(postId, postWithInteractions);
       
-      // Set up real-time listeners for likes and reposts (from interactions node since posts are immutable)
-      const currentShogunCore = shogunCoreRef.current;
-      if (currentShogunCore?.gun) {
-        const gun = currentShogunCore.gun;
-        const appName = 'shogun-mistodon-clone-v1';
-        // Read likes from interactions node (posts are immutable)
-        const likesNode = gun.get(appName).get('posts').get(postId).get('likes');
-        
-        // Listen for likes updates
-        likesNode.map().on((likeValue: any, likeKey: string) => {
-          if (likeKey && !likeKey.startsWith('_')) {
-            const currentPost = postsMap.get(postId);
-            if (currentPost) {
-              const updatedLikes = { ...(currentPost.likes || {}) };
-              if (likeValue === true || (likeValue && typeof likeValue === 'object' && !likeValue._)) {
-                updatedLikes[likeKey] = true;
-              } else {
-                delete updatedLikes[likeKey];
-              }
-              postsMap.set(postId, { ...currentPost, likes: updatedLikes });
-              debouncedUpdatePosts(Array.from(postsMap.values()));
-            }
-          }
-        });
-        listenersRef.current.set(`${postId}_likes`, () => {
-          try {
-            likesNode.map().off();
-          } catch (e) {
-            console.error(`Error cleaning up likes listener for ${postId}:`, e);
-          }
-        });
-
-        // Listen for reposts updates (from interactions node)
-        const repostsNode = gun.get(appName).get('posts').get(postId).get('reposts');
-        repostsNode.map().on((repostValue: any, repostKey: string) => {
-          if (repostKey && !repostKey.startsWith('_')) {
-            const currentPost = postsMap.get(postId);
-            if (currentPost) {
-              const updatedReposts = { ...(currentPost.reposts || {}) };
-              if (repostValue && typeof repostValue === 'object' && !repostValue._) {
-                updatedReposts[repostKey] = true;
-              } else {
-                delete updatedReposts[repostKey];
-              }
-              postsMap.set(postId, { ...currentPost, reposts: updatedReposts });
-              debouncedUpdatePosts(Array.from(postsMap.values()));
-            }
-          }
-        });
-        listenersRef.current.set(`${postId}_reposts`, () => {
-          try {
-            repostsNode.map().off();
-          } catch (e) {
-            console.error(`Error cleaning up reposts listener for ${postId}:`, e);
-          }
-        });
-      }
+      watchInteractions(postId, postsMap);
 
       debouncedUpdatePosts(Array.from(postsMap.values()));
-    });
+    };
 
+    ingestPostRef.current = ingestPost;
+    const cleanup = socialNetwork.viewGlobalTimeline(ingestPost);
     listenersRef.current.set('timeline', cleanup);
-  }, [socialNetwork, debouncedUpdatePosts]);
+
+    // Load the first page across date buckets (today's bucket may be empty)
+    socialNetwork
+      .loadTimelinePage({ limit: INITIAL_POSTS_LIMIT })
+      .then((page) => {
+        if (generation !== timelineGenerationRef.current) {
+          return;
+        }
+        page.posts.forEach(ingestPost);
+        timelineCursorRef.current = page.nextCursor;
+        setHasOlderPosts(!!page.nextCursor);
+        if (postsMap.size === 0) {
+          debouncedUpdatePosts([]);
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading timeline page:', err);
+        setLoading(false);
+      });
+  }, [socialNetwork, debouncedUpdatePosts, watchInteractions]);
 
   // View following timeline
   const viewFollowingTimeline = useCallback((followingList: string[]) => {
@@ -251,6 +269,9 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
     setLoading(true);
     setError(null);
 
+    resetPagination();
+    setFeedContext('home');
+
     const postsMap = new Map<string, PostWithAuthor>();
 
     // Set timeout to stop loading if no posts arrive
@@ -284,48 +305,7 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
 
       postsMap.set(postId, postWithInteractions);
       
-      // Set up real-time listeners for likes and reposts (from interactions node)
-      const currentShogunCore = shogunCoreRef.current;
-      if (currentShogunCore?.gun) {
-        const gun = currentShogunCore.gun;
-        const appName = 'shogun-mistodon-clone-v1';
-        const likesNode = gun.get(appName).get('posts').get(postId).get('likes');
-        
-        // Listen for likes updates
-        likesNode.map().on((likeValue: any, likeKey: string) => {
-          if (likeKey && !likeKey.startsWith('_')) {
-            const currentPost = postsMap.get(postId);
-            if (currentPost) {
-              const updatedLikes = { ...(currentPost.likes || {}) };
-              if (likeValue === true || (likeValue && typeof likeValue === 'object' && !likeValue._)) {
-                updatedLikes[likeKey] = true;
-              } else {
-                delete updatedLikes[likeKey];
-              }
-              postsMap.set(postId, { ...currentPost, likes: updatedLikes });
-              debouncedUpdatePosts(Array.from(postsMap.values()));
-            }
-          }
-        });
-
-        // Listen for reposts updates (from interactions node)
-        const repostsNode = gun.get(appName).get('posts').get(postId).get('reposts');
-        repostsNode.map().on((repostValue: any, repostKey: string) => {
-          if (repostKey && !repostKey.startsWith('_')) {
-            const currentPost = postsMap.get(postId);
-            if (currentPost) {
-              const updatedReposts = { ...(currentPost.reposts || {}) };
-              if (repostValue && typeof repostValue === 'object' && !repostValue._) {
-                updatedReposts[repostKey] = true;
-              } else {
-                delete updatedReposts[repostKey];
-              }
-              postsMap.set(postId, { ...currentPost, reposts: updatedReposts });
-              debouncedUpdatePosts(Array.from(postsMap.values()));
-            }
-          }
-        });
-      }
+      watchInteractions(postId, postsMap);
 
       debouncedUpdatePosts(Array.from(postsMap.values()));
     });
@@ -334,7 +314,7 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
       clearTimeout(loadingTimeout);
       cleanup();
     });
-  }, [socialNetwork, debouncedUpdatePosts]);
+  }, [socialNetwork, debouncedUpdatePosts, resetPagination, watchInteractions]);
 
   // View hashtag posts
   const viewHashtag = useCallback(
@@ -358,6 +338,9 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
       setLoading(true);
       setError(null);
 
+      resetPagination();
+      setFeedContext('hashtag');
+
       const postsMap = new Map<string, PostWithAuthor>();
 
       const cleanup = socialNetwork.viewHashtag(hashtag, (post: PostWithAuthor) => {
@@ -378,7 +361,62 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
 
       listenersRef.current.set(`hashtag_${hashtag}`, cleanup);
     },
-    [socialNetwork, debouncedUpdatePosts]
+    [socialNetwork, debouncedUpdatePosts, resetPagination]
+  );
+
+  // View posts mentioning a user
+  const viewMentions = useCallback(
+    (userPub: string) => {
+      if (!socialNetwork) {
+        setError('SocialNetwork not initialized');
+        return;
+      }
+
+      // Clean up existing listeners
+      listenersRef.current.forEach((cleanup) => {
+        try {
+          cleanup();
+        } catch (e) {
+          console.error('Error cleaning up listener:', e);
+        }
+      });
+      listenersRef.current.clear();
+      processedPostsRef.current.clear();
+
+      setLoading(true);
+      setError(null);
+
+      resetPagination();
+      setFeedContext('home');
+
+      const postsMap = new Map<string, PostWithAuthor>();
+
+      // Set timeout to stop loading if no mentions arrive
+      const loadingTimeout = setTimeout(() => {
+        if (postsMap.size === 0) {
+          setLoading(false);
+          debouncedUpdatePosts([]);
+        }
+      }, 5000);
+
+      const cleanup = socialNetwork.viewMentions(userPub, (post: PostWithAuthor) => {
+        clearTimeout(loadingTimeout);
+
+        if (!post.id || processedPostsRef.current.has(post.id)) {
+          return;
+        }
+        processedPostsRef.current.add(post.id);
+
+        postsMap.set(post.id, post);
+        debouncedUpdatePosts(Array.from(postsMap.values()));
+      });
+
+      listenersRef.current.set(`mentions_${userPub}`, () => {
+        clearTimeout(loadingTimeout);
+        cleanup();
+      });
+    },
+    [socialNetwork, debouncedUpdatePosts, resetPagination]
   );
 
   // Clear timeline
@@ -392,25 +430,68 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
     });
     listenersRef.current.clear();
     processedPostsRef.current.clear();
+    resetPagination();
+    setFeedContext(null);
     setPosts([]);
     setDisplayedCount(INITIAL_POSTS_LIMIT); // Reset displayed count
-  }, []);
+  }, [resetPagination]);
+
+  // Apply keyword/regex/hashtag filters for the current feed before pagination
+  const filteredPosts = useMemo(
+    () => applyContentFilters(posts, contentFilters, feedContext),
+    [posts, contentFilters, feedContext]
+  );
 
   // Load more posts (infinite scroll)
   const loadMore = useCallback(() => {
-    setDisplayedCount((prev) => Math.min(prev + LOAD_MORE_INCREMENT, posts.length));
-  }, [posts.length]);
+    // Reveal posts already in memory first
+    if (displayedCount < filteredPosts.length) {
+      setDisplayedCount((prev) => Math.min(prev + LOAD_MORE_INCREMENT, filteredPosts.length));
+      return;
+    }
+
+    // Then fetch older date buckets (global timeline only)
+    const cursor = timelineCursorRef.current;
+    const ingestPost = ingestPostRef.current;
+    if (!socialNetwork || !cursor || !ingestPost || loadingMore) {
+      return;
+    }
+
+    const generation = timelineGenerationRef.current;
+    setLoadingMore(true);
+    socialNetwork
+      .loadTimelinePage({ cursor, limit: LOAD_MORE_INCREMENT })
+      .then((page) => {
+        if (generation !== timelineGenerationRef.current) {
+          return;
+        }
+        page.posts.forEach(ingestPost);
+        timelineCursorRef.current = page.nextCursor;
+        setHasOlderPosts(!!page.nextCursor);
+        setDisplayedCount((prev) => prev + LOAD_MORE_INCREMENT);
+      })
+      .catch((err) => {
+        console.error('Error loading older posts:', err);
+        setError('Failed to load older posts');
+      })
+      .finally(() => setLoadingMore(false));
+  }, [socialNetwork, displayedCount, filteredPosts.length, loadingMore]);
 
   // Calculate displayed posts and hasMore
-  const displayedPosts = posts.slice(0, displayedCount);
-  const hasMore = posts.length > displayedCount;
+  const displayedPosts = filteredPosts.slice(0, displayedCount);
+  const hasMore = filteredPosts.length > displayedCount || hasOlderPosts;
 
   // Publish a post
   const publishPost = useCallback(
     async (
       text: string,
       mediaFile: Blob | null = null,
-      replyToId: string | null = null
+      replyToId: string | null = null,
+      visibility: PostVisibility = 'public',
+      quoteOf: string | null = null,
+      poll: NewPoll | null = null,
+      contentWarning: string | null = null,
+      sensitive: boolean = false
     ): Promise<{ success: boolean; error?: string; id?: string }> => {
       if (!socialNetwork) {
         return { success: false, error: 'SocialNetwork not initialized' };
@@ -421,7 +502,16 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
       }
 
       setError(null);
-      const result = await socialNetwork.publishPost(text, mediaFile, replyToId);
+      const result = await socialNetwork.publishPost(
+        text,
+        mediaFile,
+        replyToId,
+        visibility,
+        quoteOf,
+        poll,
+        contentWarning,
+        sensitive
+      );
 
       if (result.success) {
         // Optionally refresh timeline after posting
@@ -435,6 +525,45 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
     [socialNetwork, isLoggedIn]
   );
 
+  // Publish a numbered thread of self-replies
+  const publishThread = useCallback(
+    async (
+      parts: string[],
+      mediaFile: Blob | null = null,
+      replyToId: string | null = null,
+      visibility: PostVisibility = 'public',
+      quoteOf: string | null = null,
+      poll: NewPoll | null = null,
+      contentWarning: string | null = null,
+      sensitive: boolean = false
+    ): Promise<{ success: boolean; error?: string; id?: string; ids?: string[] }> => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+
+      if (!isLoggedIn) {
+        return { success: false, error: 'Please sign in to create posts' };
+      }
+
+      setError(null);
+      const result = await socialNetwork.publishThread(
+        parts,
+        mediaFile,
+        replyToId,
+        visibility,
+        quoteOf,
+        poll,
+        contentWarning,
+        sensitive
+      );
+      if (!result.success) {
+        setError(result.error || 'Failed to publish thread');
+      }
+      return result;
+    },
+    [socialNetwork, isLoggedIn]
+  );
+
   // Get user profile
   const getUserProfile = useCallback(
     async (userPub: string): Promise<UserProfile> => {
@@ -475,6 +604,18 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
     [socialNetwork]
   );
 
+  // Edit a post (appends a signed revision)
+  const editPost = useCallback(
+    async (postId: string, newText: string): Promise<{ success: boolean; error?: string }> => {
+      if (!socialNetwork) {
+        return { success: false, error: 'SocialNetwork not initialized' };
+      }
+
+      return await socialNetwork.editPost(postId, newText);
+    },
+    [socialNetwork]
+  );
+
   // Get all posts by a specific user (using bidirectional references)
   const getUserPosts = useCallback(
     (userPub: string, callback: (post: PostWithAuthor) => void): (() => void) => {
@@ -565,17 +706,21 @@ export function useSocialProtocol(): UseSocialProtocolReturn {
     posts,
     displayedPosts,
     loading,
-    error,
+    error: error || networkError,
     hasMore,
+    loadingMore,
     loadMore,
     publishPost,
+    publishThread,
     viewGlobalTimeline,
     viewFollowingTimeline,
     viewHashtag,
+    viewMentions,
     clearTimeline,
     getUserProfile,
     updateProfile,
     deletePost,
+    editPost,
     // New bidirectional navigation methods
     getUserPosts,
     getPostTags,
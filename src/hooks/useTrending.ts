@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { TrendingTag, TrendingWindow } from '../utils/trending';
+
+/** How often trending hashtags are recomputed while mounted */
+const TRENDING_REFRESH_MS = 5 * 60 * 1000;
+
+interface UseTrendingReturn {
+  tags: TrendingTag[]; // Fastest growing first
+  loading: boolean;
+}
+
+/**
+ * Hook for the hashtags trending in a sliding window
+ */
+export function useTrending(period: TrendingWindow = '24h', limit: number = 10): UseTrendingReturn {
+  const { socialNetwork, isReady } = useSocialProtocol();
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!socialNetwork || !isReady) {
+      return;
+    }
+
+    let cancelled = false;
+    const refresh = () => {
+      setLoading(true);
+      socialNetwork
+        .getTrendingHashtags(period, limit)
+        .then((trending) => {
+          if (!cancelled) {
+            setTags(trending);
+          }
+        })
+        .catch((err) => console.error('Error loading trending hashtags:', err))
+        .finally(() => {
+          if (!cancelled) {
+            setLoading(false);
+          }
+        });
+    };
+
+    refresh();
+    const intervalId = setInterval(refresh, TRENDING_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [socialNetwork, isReady, period, limit]);
+
+  return { tags, loading };
+}
@@ -1,6 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useShogun } from 'shogun-button-react';
-import type { Post } from '../utils/postUtils';
+import { isSealedVisibility, parseContentWarning, parseMentions, parseVisibility, type Post } from '../utils/postUtils';
+import { parsePoll } from '../utils/polls';
+import { verifyPostSoul } from '../utils/postVerification';
+import { useSocialProtocol } from './useSocialProtocol';
+import type { OpenedPostContent } from '../utils/socialProtocol';
 
 interface UseUserPostsReturn {
   posts: Post[];
@@ -15,6 +19,7 @@ interface UseUserPostsReturn {
 export function useUserPosts(userPub: string): UseUserPostsReturn {
   const { sdk, core } = useShogun();
   const shogunCore = sdk || core;
+  const { socialNetwork } = useSocialProtocol();
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -42,6 +47,37 @@ export function useUserPosts(userPub: string): UseUserPostsReturn {
     const processedPosts = new Set<string>(); // Track processed posts to prevent duplicates
     const listeners = new Map<string, any>(); // Track individual post listeners
 
+    // Encrypted posts are shown to their readers only
+    const openContent = async (postPostData: any): Promise<OpenedPostContent | null> =>
+      isSealedVisibility(postPostData.visibility)
+        ? (await socialNetwork?.openPostContent(postPostData)) || null
+        : {
+            text: postPostData.text || postPostData.content,
+            mentions: parseMentions(postPostData.mentions),
+            visibility: 'public',
+            poll: parsePoll(postPostData.poll),
+            contentWarning: parseContentWarning(postPostData.contentWarning),
+          };
+
+    // users/<pub>/posts is public: only trust posts stored in their author's
+    // signed graph (the user for own posts, the original author for reposts)
+    const isVerified = (hash: string, postSoul: string, postPostData: any, isRepost: boolean) =>
+      verifyPostSoul(gun, hash, postSoul, isRepost ? postPostData.authorPub || '' : userPub);
+
+    // Repost entries only carry the hash: resolve the soul through #posts
+    const resolveSoul = (entry: any, hash: string): Promise<string | null> => {
+      if (typeof entry.soul === 'string') {
+        return Promise.resolve(entry.soul);
+      }
+      return new Promise((resolve) => {
+        const timeoutId = setTimeout(() => resolve(null), 3000);
+        gun.get('#posts').get(hash).once((soul: any) => {
+          clearTimeout(timeoutId);
+          resolve(typeof soul === 'string' ? soul : null);
+        });
+      });
+    };
+
     // Listen for user's post indices (content-addressed - contains hash/soul)
     userPostsNode.map().on((data: any, hash: string) => {
       // Skip if already processed
@@ -57,8 +93,6 @@ export function useUserPosts(userPub: string): UseUserPostsReturn {
         return;
       }
 
-      // Get the soul from the entry (content-addressed storage)
-      const postSoul = data.soul || hash;
       const postId = hash; // Use hash as postId
       
       // Check if this is a repost (data has reposted: true)
@@ -76,125 +110,159 @@ export function useUserPosts(userPub: string): UseUserPostsReturn {
       
       processedPosts.add(postId);
 
-      // Get the actual post data using the soul (content-addressed)
-      gun.get(postSoul).once((postData: any) => {
-        // Double-check: skip if already in map (race condition protection)
-        if (postsMap.has(postId)) {
-          return;
-        }
-        
-        if (!postData || typeof postData !== 'object') {
+      resolveSoul(data, hash).then((postSoul) => {
+        if (!postSoul) {
           processedPosts.delete(postId);
           return;
         }
 
-        const { _, ...postPostData } = postData;
-
-        // Get timestamp from post data or entry
-        let postTimestamp = postPostData.timestamp || data.timestamp || Date.now();
-
-        // Validate post structure (content-addressed format uses authorPub/text)
-        const postAuthor = postPostData.authorPub || postPostData.author || userPub;
-        const postContent = postPostData.text || postPostData.content;
+        // Get the actual post data using the soul (content-addressed)
+        gun.get(postSoul).once(async (postData: any) => {
+          // Double-check: skip if already in map (race condition protection)
+          if (postsMap.has(postId)) {
+            return;
+          }
         
-        if (postAuthor && postContent) {
-          // Include post if:
-          // 1. It's the user's own post (postAuthor === userPub), OR
-          // 2. It's a repost (isRepost === true)
-          if (postAuthor === userPub || isRepost) {
-            const post: Post = {
-              id: postId,
-              author: postAuthor,
-              content: postContent,
-              timestamp: postTimestamp,
-              likes: postPostData.likes || {},
-              reposts: postPostData.reposts || {},
-              replyTo: postPostData.replyTo,
-              media: postPostData.media || null,
-            };
-
-            // Final check before adding to map
-            if (!postsMap.has(postId)) {
-              postsMap.set(postId, post);
-              
-              // Convert to array and sort by timestamp (newest first)
-              const postsArray = Array.from(postsMap.values()).sort(
-                (a, b) => b.timestamp - a.timestamp
-              );
-              
-              setPosts(postsArray);
-              setLoading(false);
-            }
-          } else {
+          if (!postData || typeof postData !== 'object') {
             processedPosts.delete(postId);
+            return;
           }
-        } else {
-          // Post is missing required fields - might still be syncing, wait a bit longer
-          // Don't delete from processedPosts immediately, give it time to sync
-        }
-      });
-
-      // Track if this is a repost
-      const isRepostFromIndex = data.reposted === true;
-      
-      // Also listen for updates (using soul for content-addressed posts)
-      const updateListener = gun.get(postSoul).on((postData: any) => {
-        if (!postData || typeof postData !== 'object' || postData._) {
-          return;
-        }
 
-        const { _, ...postPostData } = postData;
+          const { _, ...postPostData } = postData;
 
-        // Get timestamp from post data
-        let postTimestamp = postPostData.timestamp || Date.now();
+          // Get timestamp from post data or entry
+          let postTimestamp = postPostData.timestamp || data.timestamp || Date.now();
 
-        // Content-addressed format uses authorPub/text
-        const postAuthor = postPostData.authorPub || postPostData.author || userPub;
-        const postContent = postPostData.text || postPostData.content;
+          // Validate post structure (content-addressed format uses authorPub/text)
+          const postAuthor = postPostData.authorPub || postPostData.author || userPub;
+          const postContent = postPostData.text || postPostData.content;
         
-        if (postAuthor && postContent) {
-          // Check if post is still in user's posts (could be original or repost)
-          // We check by looking at the index node
-          userPostsNode.get(postId).once((indexEntry: any) => {
-            const stillInUserPosts = indexEntry && typeof indexEntry === 'object' && !indexEntry._;
-            const isRepost = indexEntry && indexEntry.reposted === true;
-          
-            // Include post if it's the user's own post OR it's a repost that's still in the index
-            if (postAuthor === userPub || (isRepost && stillInUserPosts)) {
+          if (postAuthor && postContent) {
+            // Include post if:
+            // 1. It's the user's own post (postAuthor === userPub), OR
+            // 2. It's a repost (isRepost === true)
+            if (postAuthor === userPub || isRepost) {
+              if (!(await isVerified(postId, postSoul, postPostData, isRepost))) {
+                console.warn('Dropping unverified post:', postId, postSoul);
+                return;
+              }
+              const content = await openContent(postPostData);
+              if (!content) {
+                return;
+              }
               const post: Post = {
                 id: postId,
                 author: postAuthor,
-                content: postContent,
+                content: content.text,
                 timestamp: postTimestamp,
                 likes: postPostData.likes || {},
                 reposts: postPostData.reposts || {},
                 replyTo: postPostData.replyTo,
                 media: postPostData.media || null,
+                mentions: content.mentions,
+                poll: content.poll || undefined,
+                contentWarning: content.contentWarning || undefined,
+                sensitive: postPostData.sensitive === true,
+                visibility: parseVisibility(postPostData.visibility),
+                quoteOf: postPostData.quoteOf || undefined,
               };
 
-              postsMap.set(postId, post);
+              // Final check before adding to map
+              if (!postsMap.has(postId)) {
+                postsMap.set(postId, post);
               
-              const postsArray = Array.from(postsMap.values()).sort(
-                (a, b) => b.timestamp - a.timestamp
-              );
+                // Convert to array and sort by timestamp (newest first)
+                const postsArray = Array.from(postsMap.values()).sort(
+                  (a, b) => b.timestamp - a.timestamp
+                );
               
-              setPosts(postsArray);
+                setPosts(postsArray);
+                setLoading(false);
+              }
             } else {
-              // If a post that was in our list is no longer in user's posts, remove it
-              if (postsMap.has(postId)) {
-                postsMap.delete(postId);
+              processedPosts.delete(postId);
+            }
+          } else {
+            // Post is missing required fields - might still be syncing, wait a bit longer
+            // Don't delete from processedPosts immediately, give it time to sync
+          }
+        });
+
+        // Track if this is a repost
+        const isRepostFromIndex = data.reposted === true;
+      
+        // Also listen for updates (using soul for content-addressed posts)
+        const updateListener = gun.get(postSoul).on((postData: any) => {
+          if (!postData || typeof postData !== 'object' || postData._) {
+            return;
+          }
+
+          const { _, ...postPostData } = postData;
+
+          // Get timestamp from post data
+          let postTimestamp = postPostData.timestamp || Date.now();
+
+          // Content-addressed format uses authorPub/text
+          const postAuthor = postPostData.authorPub || postPostData.author || userPub;
+          const postContent = postPostData.text || postPostData.content;
+        
+          if (postAuthor && postContent) {
+            // Check if post is still in user's posts (could be original or repost)
+            // We check by looking at the index node
+            userPostsNode.get(postId).once(async (indexEntry: any) => {
+              const stillInUserPosts = indexEntry && typeof indexEntry === 'object' && !indexEntry._;
+              const isRepost = indexEntry && indexEntry.reposted === true;
+          
+              // Include post if it's the user's own post OR it's a repost that's still in the index
+              if (postAuthor === userPub || (isRepost && stillInUserPosts)) {
+                if (!(await isVerified(postId, postSoul, postPostData, isRepost))) {
+                  return;
+                }
+                const content = await openContent(postPostData);
+                if (!content) {
+                  return;
+                }
+                const post: Post = {
+                  id: postId,
+                  author: postAuthor,
+                  content: content.text,
+                  timestamp: postTimestamp,
+                  likes: postPostData.likes || {},
+                  reposts: postPostData.reposts || {},
+                  replyTo: postPostData.replyTo,
+                  media: postPostData.media || null,
+                  mentions: content.mentions,
+                  poll: content.poll || undefined,
+                  contentWarning: content.contentWarning || undefined,
+                  sensitive: postPostData.sensitive === true,
+                  visibility: parseVisibility(postPostData.visibility),
+                  quoteOf: postPostData.quoteOf || undefined,
+                };
+
+                postsMap.set(postId, post);
+              
                 const postsArray = Array.from(postsMap.values()).sort(
                   (a, b) => b.timestamp - a.timestamp
                 );
+              
                 setPosts(postsArray);
+              } else {
+                // If a post that was in our list is no longer in user's posts, remove it
+                if (postsMap.has(postId)) {
+                  postsMap.delete(postId);
+                  const postsArray = Array.from(postsMap.values()).sort(
+                    (a, b) => b.timestamp - a.timestamp
+                  );
+                  setPosts(postsArray);
+                }
               }
-            }
-          });
-        }
-      });
+            });
+          }
+        });
 
-      // Store listener for cleanup
-      listeners.set(postId, updateListener);
+        // Store listener for cleanup
+        listeners.set(postId, updateListener);
+      });
     });
 
     // Set loading to false after initial load attempt
@@ -217,8 +285,8 @@ export function useUserPosts(userPub: string): UseUserPostsReturn {
         console.error('Error cleaning up user posts listeners:', e);
       }
     };
-    // Only recreate when gun instance or userPub changes
-  }, [shogunCore?.gun, userPub]);
+    // Only recreate when gun instance, userPub or the protocol instance changes
+  }, [shogunCore?.gun, userPub, socialNetwork]);
 
   // Refresh posts
   const refreshPosts = useCallback(() => {
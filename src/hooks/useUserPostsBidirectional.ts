@@ -53,6 +53,7 @@ export function useUserPostsBidirectional(userPub: string): UseUserPostsBidirect
         reposts: postWithAuthor.reposts || {},
         replyTo: postWithAuthor.replyTo || undefined,
         media: postWithAuthor.media || undefined,
+        mentions: postWithAuthor.mentions,
         authorProfile: postWithAuthor.authorProfile ? {
           username: postWithAuthor.authorProfile.displayName,
           avatar: postWithAuthor.authorProfile.avatarCid || undefined,
@@ -7,6 +7,7 @@ export interface UserProfile {
   bio?: string;
   avatar?: string;
   createdAt?: number;
+  locked?: boolean; // Display copy; the signed flag is set by SocialNetwork.setAccountLocked
 }
 
 interface UseUserProfileReturn {
@@ -81,6 +82,7 @@ export function useUserProfile(userPub?: string): UseUserProfileReturn {
             bio: profileData.bio,
             avatar: profileData.avatar,
             createdAt: profileData.createdAt,
+            locked: profileData.locked === true,
           } as UserProfile;
           
           // Create a hash to detect duplicates
@@ -238,8 +240,12 @@ export function useUserProfile(userPub?: string): UseUserProfileReturn {
         publicProfileNode.put(updatedProfile);
         
         // 2. User space: user.get('profile') (for compatibility with socialProtocol.ts)
+        // The public copy of `locked` is writable by anyone: never copy it
+        // into the signed profile
         if (user && user.is && user.is.pub === userPub) {
-          user.get('profile').put(updatedProfile);
+          const signedProfile: Partial<UserProfile> = { ...updatedProfile };
+          delete signedProfile.locked;
+          user.get('profile').put(signedProfile);
         }
 
         // console.log('Profile saved successfully to both paths');
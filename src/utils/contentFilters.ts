@@ -0,0 +1,147 @@
+/**
+ * User-defined content filters (muted keywords, words, regexes, hashtags)
+ * Stored in the user's space by SocialNetwork and applied client-side to
+ * each feed according to the filter's contexts.
+ */
+
+import type { Post } from './postUtils';
+
+export type FilterMatchType = 'keyword' | 'word' | 'regex' | 'hashtag';
+export type FilterContext = 'home' | 'global' | 'hashtag' | 'replies';
+export type FilterAction = 'hide' | 'collapse';
+
+export const FILTER_CONTEXTS: FilterContext[] = ['home', 'global', 'hashtag', 'replies'];
+
+/** Longer regexes are rejected to limit the cost of matching every post */
+export const MAX_FILTER_PATTERN_LENGTH = 200;
+
+export interface ContentFilter {
+  id: string;
+  type: FilterMatchType;
+  pattern: string;
+  contexts: FilterContext[];
+  action: FilterAction;
+  createdAt: number;
+}
+
+/**
+ * Validate a filter before saving it, returning an error message or null
+ */
+export function validateFilter(filter: Pick<ContentFilter, 'type' | 'pattern' | 'contexts'>): string | null {
+  const pattern = filter.pattern.trim();
+  if (!pattern) {
+    return 'Filter cannot be empty';
+  }
+  if (pattern.length > MAX_FILTER_PATTERN_LENGTH) {
+    return `Filter is too long (max ${MAX_FILTER_PATTERN_LENGTH} characters)`;
+  }
+  if (filter.contexts.length === 0) {
+    return 'Select at least one context';
+  }
+  if (filter.type === 'regex') {
+    try {
+      new RegExp(pattern, 'iu');
+    } catch (e) {
+      return 'Invalid regular expression';
+    }
+  }
+  return null;
+}
+
+/**
+ * Build a predicate matching post text against a filter, null if the
+ * pattern cannot be compiled
+ */
+function compileFilter(filter: ContentFilter): ((text: string) => boolean) | null {
+  const pattern = filter.pattern.trim();
+  if (!pattern) {
+    return null;
+  }
+
+  switch (filter.type) {
+    case 'keyword': {
+      const needle = pattern.toLowerCase();
+      return (text) => text.toLowerCase().includes(needle);
+    }
+    case 'word': {
+      const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const regex = new RegExp(`(^|[^\\p{L}\\p{N}_])${escaped}(?=$|[^\\p{L}\\p{N}_])`, 'iu');
+      return (text) => regex.test(text);
+    }
+    case 'regex': {
+      if (pattern.length > MAX_FILTER_PATTERN_LENGTH) {
+        return null;
+      }
+      try {
+        const regex = new RegExp(pattern, 'iu');
+        return (text) => regex.test(text);
+      } catch (e) {
+        console.warn('Skipping invalid filter regex:', pattern);
+        return null;
+      }
+    }
+    case 'hashtag': {
+      const tag = pattern.replace(/^#/, '').toLowerCase();
+      return (text) => (text.match(/#\w+/g) || []).some((match) => match.slice(1).toLowerCase() === tag);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply the filters active in a context to a list of posts
+ * 'hide' filters drop the post; 'collapse' filters keep it with
+ * `collapsedBy` listing the matching patterns.
+ */
+export function applyContentFilters<T extends Post>(
+  posts: T[],
+  filters: ContentFilter[],
+  context: FilterContext | null
+): T[] {
+  if (!context) {
+    return posts;
+  }
+
+  const active = filters
+    .filter((filter) => filter.contexts.includes(context))
+    .map((filter) => ({ filter, matches: compileFilter(filter) }))
+    .filter((entry): entry is { filter: ContentFilter; matches: (text: string) => boolean } => !!entry.matches);
+  if (active.length === 0) {
+    return posts;
+  }
+
+  const result: T[] = [];
+  posts.forEach((post) => {
+    const matched = active.filter(({ matches }) => matches(post.content || ''));
+    if (matched.length === 0) {
+      result.push(post);
+    } else if (matched.every(({ filter }) => filter.action === 'collapse')) {
+      result.push({ ...post, collapsedBy: matched.map(({ filter }) => filter.pattern) });
+    }
+  });
+  return result;
+}
+
+/**
+ * Parse a filter entry read from GunDB, null if invalid
+ */
+export function parseContentFilter(data: any, id: string): ContentFilter | null {
+  if (!data || typeof data !== 'object' || !id || id.startsWith('_') || typeof data.pattern !== 'string') {
+    return null;
+  }
+  if (!['keyword', 'word', 'regex', 'hashtag'].includes(data.type)) {
+    return null;
+  }
+  const contexts = String(data.contexts || '')
+    .split(',')
+    .filter((context): context is FilterContext => FILTER_CONTEXTS.includes(context as FilterContext));
+  return {
+    id,
+    type: data.type,
+    pattern: data.pattern,
+    contexts,
+    action: data.action === 'collapse' ? 'collapse' : 'hide',
+    createdAt: data.createdAt || 0,
+  };
+}
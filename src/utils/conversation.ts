@@ -0,0 +1,27 @@
+/**
+ * Conversation trees
+ * A conversation is the chain of ancestors of a post plus the tree of its
+ * replies (see getConversationAncestors and getReplyTree). An author's
+ * earliest self-reply continues their thread and is shown in sequence
+ * with the post instead of nested among the other replies.
+ */
+import type { ConversationNode } from './socialProtocol';
+
+/**
+ * Number of posts in a list of reply trees, nested replies included
+ */
+export function countReplies(nodes: ConversationNode[]): number {
+  return nodes.reduce((count, node) => count + 1 + countReplies(node.replies), 0);
+}
+
+/**
+ * Split the replies to a post of `authorPub` into the next part of the
+ * author's thread (their earliest self-reply) and the other replies
+ */
+export function splitThreadContinuation(
+  authorPub: string,
+  replies: ConversationNode[]
+): { next: ConversationNode | null; others: ConversationNode[] } {
+  const next = replies.find((node) => node.post.author === authorPub) || null;
+  return { next, others: replies.filter((node) => node !== next) };
+}
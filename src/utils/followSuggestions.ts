@@ -0,0 +1,90 @@
+/**
+ * Follow suggestions ("who to follow")
+ * Candidates are scored from three signals of the social graph: people
+ * followed by the accounts I follow, people who follow me and I don't
+ * follow back, and people posting in the hashtags I use.
+ */
+
+export const SUGGESTION_WEIGHTS = {
+  followedBy: 3, // Per account I follow that follows the candidate
+  followsMe: 5,
+  sharedTag: 2, // Per hashtag of mine the candidate posted in
+};
+
+export interface FollowSuggestion {
+  pub: string;
+  score: number;
+  followedBy: string[]; // Accounts I follow that follow them
+  followsMe: boolean;
+  sharedTags: string[];
+}
+
+export interface SuggestionSignals {
+  followingOf: Record<string, string[]>; // account I follow -> accounts they follow
+  followers: string[]; // my followers
+  tagAuthors: Record<string, string[]>; // hashtag I use -> authors posting in it
+}
+
+/**
+ * Score and rank candidates, best first
+ * @param exclude - me, accounts I already follow and hidden accounts
+ */
+export function scoreSuggestions(signals: SuggestionSignals, exclude: Set<string>): FollowSuggestion[] {
+  const candidates = new Map<string, FollowSuggestion>();
+  const candidate = (pub: string): FollowSuggestion | null => {
+    if (exclude.has(pub)) {
+      return null;
+    }
+    if (!candidates.has(pub)) {
+      candidates.set(pub, { pub, score: 0, followedBy: [], followsMe: false, sharedTags: [] });
+    }
+    return candidates.get(pub) as FollowSuggestion;
+  };
+
+  Object.entries(signals.followingOf).forEach(([friend, theirFollowing]) => {
+    theirFollowing.forEach((pub) => {
+      const entry = candidate(pub);
+      if (entry && !entry.followedBy.includes(friend)) {
+        entry.followedBy.push(friend);
+        entry.score += SUGGESTION_WEIGHTS.followedBy;
+      }
+    });
+  });
+
+  signals.followers.forEach((pub) => {
+    const entry = candidate(pub);
+    if (entry && !entry.followsMe) {
+      entry.followsMe = true;
+      entry.score += SUGGESTION_WEIGHTS.followsMe;
+    }
+  });
+
+  Object.entries(signals.tagAuthors).forEach(([tag, authors]) => {
+    new Set(authors).forEach((pub) => {
+      const entry = candidate(pub);
+      if (entry && !entry.sharedTags.includes(tag)) {
+        entry.sharedTags.push(tag);
+        entry.score += SUGGESTION_WEIGHTS.sharedTag;
+      }
+    });
+  });
+
+  return Array.from(candidates.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Short explanation of why an account is suggested
+ */
+export function describeSuggestion(suggestion: FollowSuggestion): string {
+  if (suggestion.followsMe) {
+    return 'Follows you';
+  }
+  if (suggestion.followedBy.length > 0) {
+    const count = suggestion.followedBy.length;
+    return `Followed by ${count} ${count === 1 ? 'person' : 'people'} you follow`;
+  }
+  if (suggestion.sharedTags.length > 0) {
+    return `Active in ${suggestion.sharedTags.slice(0, 2).map((tag) => `#${tag}`).join(', ')}`;
+  }
+  return '';
+}
@@ -0,0 +1,27 @@
+/**
+ * Likes and reposts
+ * Both live on the post's interactions node: <app>/posts/<id>/likes/<pub>
+ * is true and <app>/posts/<id>/reposts/<pub> is { timestamp }. Older
+ * clients also wrote a copy under interactions/posts/<id>, which
+ * SocialNetwork.migrateLegacyInteractions merges back once.
+ */
+
+/**
+ * Whether a stored like/repost entry is set: true or { timestamp }
+ * (removed entries are null; reposts read as Gun nodes still carry their
+ * timestamp next to the `_` metadata)
+ */
+export function isInteraction(value: unknown): boolean {
+  return value === true || typeof (value as { timestamp?: unknown } | null)?.timestamp === 'number';
+}
+
+export function countInteractions(entries: Record<string, unknown> | undefined): number {
+  if (!entries) {
+    return 0;
+  }
+  return Object.keys(entries).filter((key) => !key.startsWith('_') && isInteraction(entries[key])).length;
+}
+
+export function hasInteracted(entries: Record<string, unknown> | undefined, userPub: string | null | undefined): boolean {
+  return !!entries && !!userPub && isInteraction(entries[userPub]);
+}
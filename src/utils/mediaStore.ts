@@ -0,0 +1,172 @@
+/**
+ * Content-addressed media storage
+ * Media blobs are split into chunks and stored in GunDB's immutable `#media` node.
+ * Every node key is the SHA-256 of its value, so GunDB itself rejects tampered data.
+ */
+
+import { gunPut } from './gunHelpers';
+
+/** Prefix that marks a post's `media` field as a media store ID */
+export const MEDIA_ID_PREFIX = 'media:';
+
+/** Raw bytes per chunk (base64 encoded before storage) */
+const CHUNK_SIZE = 64 * 1024;
+/** Max time to wait for a single chunk read */
+const READ_TIMEOUT = 5000;
+
+/**
+ * Pluggable storage backend for post media
+ */
+export interface MediaStore {
+  /** Store a blob and return its content ID */
+  put(blob: Blob): Promise<string>;
+  /** Load and verify a blob by content ID, null if missing or corrupted */
+  get(id: string): Promise<Blob | null>;
+}
+
+/**
+ * Manifest describing how a blob was chunked.
+ * Stored as a JSON string so it can live in the `#media` node too.
+ */
+interface MediaManifest {
+  type: string;
+  size: number;
+  sha256: string; // hex SHA-256 of the whole blob
+  chunks: string[]; // `#media` keys of the chunks, in order
+}
+
+/**
+ * Check whether a media value is a media store ID
+ */
+export function isMediaId(media: string | null | undefined): media is string {
+  return !!media && media.startsWith(MEDIA_ID_PREFIX);
+}
+
+/**
+ * Default MediaStore backed by GunDB content-addressed nodes
+ */
+export class GunMediaStore implements MediaStore {
+  private gun: any;
+
+  constructor(gun: any) {
+    this.gun = gun;
+  }
+
+  async put(blob: Blob): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const chunks: string[] = [];
+
+    for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+      const chunk = bytesToBase64(bytes.subarray(offset, offset + CHUNK_SIZE));
+      const chunkKey = await this._hash(chunk);
+      await gunPut(this.gun.get('#media').get(chunkKey), chunk);
+      chunks.push(chunkKey);
+    }
+
+    const manifest: MediaManifest = {
+      type: blob.type || 'application/octet-stream',
+      size: bytes.length,
+      sha256: await sha256Hex(bytes),
+      chunks,
+    };
+    const manifestString = JSON.stringify(manifest);
+    const manifestKey = await this._hash(manifestString);
+    await gunPut(this.gun.get('#media').get(manifestKey), manifestString);
+
+    return MEDIA_ID_PREFIX + manifestKey;
+  }
+
+  async get(id: string): Promise<Blob | null> {
+    if (!isMediaId(id)) {
+      return null;
+    }
+
+    const manifestKey = id.slice(MEDIA_ID_PREFIX.length);
+    const manifestString = await this._readVerified(manifestKey);
+    if (!manifestString) {
+      return null;
+    }
+
+    let manifest: MediaManifest;
+    try {
+      manifest = JSON.parse(manifestString);
+    } catch (e) {
+      console.error('Invalid media manifest:', id);
+      return null;
+    }
+
+    const chunks = await Promise.all(manifest.chunks.map((key) => this._readVerified(key)));
+    if (chunks.some((chunk) => chunk === null)) {
+      console.warn('Media chunks missing or corrupted:', id);
+      return null;
+    }
+
+    const parts = chunks.map((chunk) => base64ToBytes(chunk as string));
+    const bytes = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let offset = 0;
+    parts.forEach((part) => {
+      bytes.set(part, offset);
+      offset += part.length;
+    });
+
+    if (bytes.length !== manifest.size || (await sha256Hex(bytes)) !== manifest.sha256) {
+      console.warn('Media content does not match its manifest:', id);
+      return null;
+    }
+
+    return new Blob([bytes], { type: manifest.type });
+  }
+
+  /**
+   * Read a `#media` value and check it still hashes to its key
+   */
+  private async _readVerified(key: string): Promise<string | null> {
+    const value = await new Promise<string | null>((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.gun.get('#media').get(key).once((data: any) => {
+        clearTimeout(timeoutId);
+        resolve(typeof data === 'string' ? data : null);
+      });
+    });
+
+    if (value === null || (await this._hash(value)) !== key) {
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * SHA-256 in the format GunDB uses to validate `#` nodes
+   */
+  private async _hash(value: string): Promise<string> {
+    const SEA = this.gun.SEA;
+    if (!SEA || !SEA.work) {
+      throw new Error('SEA not available - content-addressed storage requires SEA');
+    }
+    return (await SEA.work(value, null, null, { name: 'SHA-256' })) as string;
+  }
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
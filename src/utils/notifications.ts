@@ -0,0 +1,223 @@
+/**
+ * Notifications inbox
+ * Events (likes, reposts, replies, follows, follow requests, mentions) are written by the actor
+ * to the target user's public node under users/<targetPub>/notifications/<id>.
+ * Read state lives in the target's own user space (see SocialNetwork).
+ */
+
+export type NotificationType =
+  | 'like'
+  | 'repost'
+  | 'reply'
+  | 'follow'
+  | 'followRequest' // Someone asked to follow a locked account
+  | 'followAccept' // A locked account approved the request
+  | 'mention';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  actorPub: string;
+  postId?: string | null; // The target's post (like/repost/reply) or the mentioning post
+  replyId?: string | null; // The reply itself, for reply notifications
+  timestamp: number;
+}
+
+/**
+ * Notifications shown together ("5 people liked your post")
+ */
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  postId?: string | null;
+  actorPubs: string[]; // Most recent first, unique
+  notifications: Notification[]; // Most recent first
+  timestamp: number; // Most recent event
+  unread: boolean;
+}
+
+const NOTIFICATION_TYPES: NotificationType[] = [
+  'like',
+  'repost',
+  'reply',
+  'follow',
+  'followRequest',
+  'followAccept',
+  'mention',
+];
+
+// Not about a post: grouped by type alone
+const ACCOUNT_NOTIFICATION_TYPES: NotificationType[] = ['follow', 'followRequest', 'followAccept'];
+
+/**
+ * Deterministic notification id, so repeating an action (like, unlike, like)
+ * overwrites the same entry instead of piling up duplicates
+ */
+export function notificationId(
+  type: NotificationType,
+  actorPub: string,
+  subjectId?: string | null
+): string {
+  return [type, subjectId || '-', actorPub].join(':');
+}
+
+/**
+ * Write a notification to the target user's inbox
+ * Self-notifications are skipped.
+ */
+export function sendNotification(
+  gun: any,
+  targetPub: string,
+  notification: Omit<Notification, 'id' | 'timestamp'> & { timestamp?: number }
+): void {
+  if (!targetPub || targetPub === notification.actorPub) {
+    return;
+  }
+
+  const id = notificationId(
+    notification.type,
+    notification.actorPub,
+    notification.type === 'reply' ? notification.replyId : notification.postId
+  );
+  gun.get('users').get(targetPub).get('notifications').get(id).put({
+    type: notification.type,
+    actorPub: notification.actorPub,
+    postId: notification.postId || null,
+    replyId: notification.replyId || null,
+    timestamp: notification.timestamp || Date.now(),
+  });
+}
+
+/**
+ * Remove a notification when the action is undone (unlike, unrepost, unfollow)
+ */
+export function retractNotification(
+  gun: any,
+  targetPub: string,
+  type: NotificationType,
+  actorPub: string,
+  subjectId?: string | null
+): void {
+  if (!targetPub || targetPub === actorPub) {
+    return;
+  }
+  gun
+    .get('users')
+    .get(targetPub)
+    .get('notifications')
+    .get(notificationId(type, actorPub, subjectId))
+    .put(null);
+}
+
+/**
+ * Parse a raw notification entry read from GunDB, null if invalid
+ */
+export function parseNotification(data: any, id: string): Notification | null {
+  if (!data || typeof data !== 'object' || !id || id.startsWith('_')) {
+    return null;
+  }
+  if (!NOTIFICATION_TYPES.includes(data.type) || typeof data.actorPub !== 'string') {
+    return null;
+  }
+  // The id encodes the actor, so an entry whose actor differs from its id
+  // is malformed. This is not authentication: the inbox is public and
+  // anyone can write an entry naming any actor.
+  if (!id.endsWith(`:${data.actorPub}`)) {
+    return null;
+  }
+  return {
+    id,
+    type: data.type,
+    actorPub: data.actorPub,
+    postId: data.postId || null,
+    replyId: data.replyId || null,
+    timestamp: data.timestamp || 0,
+  };
+}
+
+/**
+ * Find the author of a content-addressed post from its soul (~<pub>/...)
+ */
+export function getPostAuthorPub(gun: any, postId: string, timeout: number = 3000): Promise<string | null> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(() => resolve(null), timeout);
+    gun.get('#posts').get(postId).once((postSoul: string) => {
+      clearTimeout(timeoutId);
+      const match = typeof postSoul === 'string' ? postSoul.match(/^~([^/]+)\//) : null;
+      resolve(match ? match[1] : null);
+    });
+  });
+}
+
+/**
+ * Notify the author of a post about an interaction with it (like, repost)
+ */
+export async function notifyPostAuthor(
+  gun: any,
+  postId: string,
+  type: 'like' | 'repost',
+  actorPub: string
+): Promise<void> {
+  const authorPub = await getPostAuthorPub(gun, postId);
+  if (authorPub) {
+    sendNotification(gun, authorPub, { type, actorPub, postId });
+  }
+}
+
+/**
+ * Withdraw a notification sent with notifyPostAuthor
+ */
+export async function retractPostNotification(
+  gun: any,
+  postId: string,
+  type: 'like' | 'repost',
+  actorPub: string
+): Promise<void> {
+  const authorPub = await getPostAuthorPub(gun, postId);
+  if (authorPub) {
+    retractNotification(gun, authorPub, type, actorPub, postId);
+  }
+}
+
+/**
+ * Group notifications for display
+ * Likes and reposts are grouped per post, replies per parent post, follows
+ * (and follow requests/approvals) all together; mentions stay one per post.
+ */
+export function groupNotifications(
+  notifications: Notification[],
+  isRead: (notification: Notification) => boolean
+): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+  const sorted = [...notifications].sort((a, b) => b.timestamp - a.timestamp);
+
+  sorted.forEach((notification) => {
+    const key = ACCOUNT_NOTIFICATION_TYPES.includes(notification.type)
+      ? notification.type
+      : `${notification.type}:${notification.postId || notification.id}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        type: notification.type,
+        postId: notification.postId,
+        actorPubs: [],
+        notifications: [],
+        timestamp: notification.timestamp,
+        unread: false,
+      };
+      groups.set(key, group);
+    }
+
+    group.notifications.push(notification);
+    if (!group.actorPubs.includes(notification.actorPub)) {
+      group.actorPubs.push(notification.actorPub);
+    }
+    if (!isRead(notification)) {
+      group.unread = true;
+    }
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.timestamp - a.timestamp);
+}
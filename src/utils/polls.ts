@@ -0,0 +1,130 @@
+/**
+ * Polls attached to posts
+ * The poll (options, choice mode, closing time) is part of the immutable
+ * post payload. Each vote is signed in the voter's space and announced on
+ * the post's interactions node, so there is at most one vote per pub.
+ */
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 4;
+export const MAX_POLL_OPTION_LENGTH = 80;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const POLL_DURATIONS: { label: string; durationMs: number }[] = [
+  { label: '1 hour', durationMs: HOUR_MS },
+  { label: '1 day', durationMs: 24 * HOUR_MS },
+  { label: '3 days', durationMs: 3 * 24 * HOUR_MS },
+  { label: '7 days', durationMs: 7 * 24 * HOUR_MS },
+];
+
+export interface Poll {
+  options: string[];
+  multiple: boolean; // More than one option may be chosen
+  closesAt: number;
+}
+
+/** Poll as entered in the composer, before it gets a closing time */
+export interface NewPoll {
+  options: string[];
+  multiple: boolean;
+  durationMs: number;
+}
+
+export interface PollVote {
+  choices: number[]; // Indexes into Poll.options
+  timestamp: number;
+}
+
+export interface PollTally {
+  counts: number[]; // Votes per option
+  voters: number;
+}
+
+/**
+ * Validate a poll before publishing, returning an error message or null
+ */
+export function validatePoll(poll: NewPoll): string | null {
+  const options = poll.options.map((option) => option.trim());
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    return `A poll needs ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options`;
+  }
+  if (options.some((option) => !option)) {
+    return 'Poll options cannot be empty';
+  }
+  if (options.some((option) => option.length > MAX_POLL_OPTION_LENGTH)) {
+    return `Poll options are limited to ${MAX_POLL_OPTION_LENGTH} characters`;
+  }
+  if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+    return 'Poll options must be different';
+  }
+  if (!(poll.durationMs > 0)) {
+    return 'Choose how long the poll stays open';
+  }
+  return null;
+}
+
+/**
+ * Parse the serialized poll of a post, null if missing or malformed
+ */
+export function parsePoll(value: unknown): Poll | null {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+  try {
+    const data = JSON.parse(value);
+    const options = Array.isArray(data?.options)
+      ? data.options.filter((option: unknown): option is string => typeof option === 'string')
+      : [];
+    if (options.length < MIN_POLL_OPTIONS || typeof data.closesAt !== 'number') {
+      return null;
+    }
+    return {
+      options: options.slice(0, MAX_POLL_OPTIONS),
+      multiple: data.multiple === true,
+      closesAt: data.closesAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a signed vote, keeping it only if it is valid for the poll
+ * The timestamp is set by the voter's clock, as is the GunDB write state,
+ * so a backdated vote after the close still passes: only honest clients
+ * respect closesAt.
+ */
+export function parsePollVote(value: unknown, poll: Poll): PollVote | null {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+  try {
+    const data = JSON.parse(value);
+    const choices: number[] = Array.isArray(data?.choices) ? [...new Set<number>(data.choices)] : [];
+    const valid =
+      choices.length > 0 &&
+      (poll.multiple || choices.length === 1) &&
+      choices.every((choice) => Number.isInteger(choice) && choice >= 0 && choice < poll.options.length) &&
+      typeof data.timestamp === 'number' &&
+      data.timestamp <= poll.closesAt;
+    return valid ? { choices, timestamp: data.timestamp } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isPollClosed(poll: Poll, now: number = Date.now()): boolean {
+  return now >= poll.closesAt;
+}
+
+/**
+ * Count the votes of each option
+ * @param votes - voter pub -> vote
+ */
+export function tallyPoll(poll: Poll, votes: Record<string, PollVote>): PollTally {
+  const counts = poll.options.map(() => 0);
+  const ballots = Object.values(votes);
+  ballots.forEach((vote) => vote.choices.forEach((choice) => counts[choice]++));
+  return { counts, voters: ballots.length };
+}
@@ -2,6 +2,42 @@
  * Utility functions for post formatting and validation
  */
 
+import type { Poll } from './polls';
+import type { PostWithAuthor, UserProfile } from './socialProtocol';
+
+/**
+ * Who can see a post:
+ * - public: everyone, listed in the global timeline and hashtag indexes
+ * - unlisted: everyone with the link or on the author's profile, not listed
+ * - followers: approved followers (text encrypted with the author's followers key)
+ * - direct: the mentioned users only (text encrypted with a per-post key)
+ */
+export type PostVisibility = 'public' | 'unlisted' | 'followers' | 'direct';
+
+export const POST_VISIBILITIES: PostVisibility[] = ['public', 'unlisted', 'followers', 'direct'];
+
+/** Icon, label and explanation of each visibility, for the composer and post cards */
+export const VISIBILITY_DETAILS: Record<PostVisibility, { icon: string; label: string; description: string }> = {
+  public: { icon: '🌐', label: 'Public', description: 'Everyone, listed in timelines and hashtags' },
+  unlisted: { icon: '🔓', label: 'Unlisted', description: 'Everyone with the link, not listed' },
+  followers: { icon: '🔒', label: 'Followers', description: 'Approved followers only' },
+  direct: { icon: '✉️', label: 'Direct', description: 'Mentioned users only' },
+};
+
+/**
+ * Read the visibility stored on a post node (missing means public)
+ */
+export function parseVisibility(value: unknown): PostVisibility {
+  return POST_VISIBILITIES.includes(value as PostVisibility) ? (value as PostVisibility) : 'public';
+}
+
+/**
+ * Whether the text and mentions of a post are stored encrypted
+ */
+export function isSealedVisibility(visibility: unknown): boolean {
+  return visibility === 'followers' || visibility === 'direct';
+}
+
 export interface Post {
   id: string;
   author: string; // userPub
@@ -10,7 +46,14 @@ export interface Post {
   likes?: Record<string, boolean>;
   reposts?: Record<string, boolean>;
   replyTo?: string; // postId if this is a reply
-  media?: string | null; // IPFS CID or image URL
+  quoteOf?: string; // postId of the quoted post
+  poll?: Poll;
+  contentWarning?: string; // The body stays collapsed behind this summary
+  media?: string | null; // Media store ID or image URL
+  sensitive?: boolean; // Media is blurred until clicked
+  mentions?: Record<string, string>; // handle -> userPub for @mentions in the text
+  collapsedBy?: string[]; // Content filters that collapsed this post (see contentFilters.ts)
+  visibility?: PostVisibility;
   authorProfile?: {
     username?: string;
     avatar?: string;
@@ -20,6 +63,34 @@ export interface Post {
 }
 
 export const MAX_POST_LENGTH = 500;
+export const MAX_CONTENT_WARNING_LENGTH = 100;
+
+export const MAX_PINNED_POSTS = 5;
+export const MAX_THREAD_POSTS = 10;
+
+/**
+ * Read the pinned post ids stored on a user's public node (a JSON array)
+ */
+export function parsePinnedPostIds(value: unknown): string[] {
+  if (typeof value !== 'string' || !value) {
+    return [];
+  }
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids)
+      ? [...new Set(ids.filter((id: unknown): id is string => typeof id === 'string'))].slice(0, MAX_PINNED_POSTS)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read the content warning stored on a post node, null if there is none
+ */
+export function parseContentWarning(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null;
+}
 
 /**
  * Validates post content
@@ -39,6 +110,40 @@ export function validatePost(content: string): { valid: boolean; error?: string
   return { valid: true };
 }
 
+/**
+ * Add the "n/N" marker to each post of a thread (single posts are unchanged)
+ */
+export function numberThreadParts(parts: string[]): string[] {
+  if (parts.length < 2) {
+    return parts;
+  }
+  return parts.map((part, index) => `${part.trim()}\n\n${index + 1}/${parts.length}`);
+}
+
+/**
+ * Validates the posts of a thread, numbering included
+ */
+export function validateThread(parts: string[]): { valid: boolean; error?: string } {
+  if (parts.length === 0) {
+    return { valid: false, error: 'Post cannot be empty' };
+  }
+  if (parts.length > MAX_THREAD_POSTS) {
+    return { valid: false, error: `A thread can have up to ${MAX_THREAD_POSTS} posts` };
+  }
+
+  const numbered = numberThreadParts(parts);
+  for (let index = 0; index < parts.length; index++) {
+    const validation = validatePost(parts[index].trim() && numbered[index]);
+    if (!validation.valid) {
+      return {
+        valid: false,
+        error: parts.length > 1 ? `Post ${index + 1} of the thread: ${validation.error}` : validation.error,
+      };
+    }
+  }
+  return { valid: true };
+}
+
 /**
  * Formats timestamp to relative time (e.g., "2 hours ago")
  */
@@ -92,3 +197,73 @@ export function truncateContent(content: string, maxLength: number = 280): strin
   return content.substring(0, maxLength - 3) + '...';
 }
 
+
+/**
+ * Normalizes a display name or mention into a handle (lowercase, no spaces)
+ */
+export function normalizeHandle(name: string): string {
+  return name.toLowerCase().replace(/[^\w.\-]/g, '').replace(/[.\-]+$/, '');
+}
+
+/**
+ * Extracts unique @mention handles from post text
+ * Matches display names (@alice) and public key prefixes (@AbC123xy...)
+ */
+export function extractMentions(content: string): string[] {
+  const handles: string[] = [];
+  const regex = /(^|[^\w@])@([\w.\-]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    const handle = match[2].replace(/[.\-]+$/, '');
+    if (handle && !handles.includes(handle)) {
+      handles.push(handle);
+    }
+  }
+  return handles;
+}
+
+/**
+ * Mentions that address a reply to everyone in a direct conversation (the
+ * author and the other recipients, except the replier), as public key
+ * prefixes since the recipients of a direct post are its mentions
+ */
+export function directReplyMentions(post: Post, replierPub: string | null | undefined): string {
+  const pubs = [post.author, ...Object.values(post.mentions || {})].filter((pub) => pub && pub !== replierPub);
+  return [...new Set(pubs)].map((pub) => `@${pub.slice(0, 16)} `).join('');
+}
+
+/**
+ * Map a protocol profile to the authorProfile shape of Post
+ */
+export function toAuthorProfile(profile: UserProfile): NonNullable<Post['authorProfile']> {
+  return {
+    username: profile.displayName,
+    avatar: profile.avatarCid || undefined,
+    bio: profile.bio,
+  };
+}
+
+/**
+ * Map a post loaded with its author to the shape PostCard expects
+ */
+export function toCardPost(post: PostWithAuthor): Post {
+  return {
+    ...post,
+    authorProfile: post.authorProfile ? toAuthorProfile(post.authorProfile) : undefined,
+  };
+}
+
+/**
+ * Parses the mentions field stored with a post (JSON string of handle -> userPub)
+ */
+export function parseMentions(raw: unknown): Record<string, string> {
+  if (typeof raw !== 'string' || !raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+}
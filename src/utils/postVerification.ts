@@ -0,0 +1,36 @@
+/**
+ * Verification of content-addressed posts
+ *
+ * Discovery indexes (timeline/<date>, hashtags, replies) are public nodes that
+ * anyone can write, so a loaded post is only trusted when:
+ * 1. its soul lives in the author's `~pub` signed graph (GunDB/SEA reject
+ *    writes there that are not signed by that key), and
+ * 2. the hash it was reached by is SEA.work(soul), as written by publishPost.
+ */
+
+/**
+ * Check that a post soul belongs to the claimed author and matches its hash
+ */
+export async function verifyPostSoul(
+  gun: any,
+  postHash: string,
+  postSoul: string,
+  authorPub: string
+): Promise<boolean> {
+  if (!authorPub || !postSoul || !postSoul.startsWith(`~${authorPub}/`)) {
+    return false;
+  }
+
+  const SEA = gun?.SEA;
+  if (!SEA || !SEA.work) {
+    return false;
+  }
+
+  try {
+    const expectedHash = await SEA.work(postSoul, null, null, { name: 'SHA-256' });
+    return expectedHash === postHash;
+  } catch (e) {
+    console.error('Error verifying post hash:', e);
+    return false;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Emoji reactions
+ * A user can react to a post with several emojis from a fixed set. Their
+ * reactions are stored as one JSON list under posts/<id>/reactions/<pub>;
+ * the like is the ❤️ reaction and keeps its own likes/<pub> node, so
+ * existing likes count as reactions and old clients keep working.
+ */
+
+export const LIKE_REACTION = '❤️';
+
+export const REACTION_EMOJIS = [LIKE_REACTION, '👍', '😂', '😮', '😢', '🔥', '🎉'];
+
+/**
+ * Reactors of a post per emoji (in REACTION_EMOJIS order, pubs unique)
+ */
+export type ReactionTally = Record<string, string[]>;
+
+export function isReactionEmoji(value: unknown): value is string {
+  return typeof value === 'string' && REACTION_EMOJIS.includes(value);
+}
+
+/**
+ * Parse a user's stored reactions, dropping unknown emojis, the like
+ * (stored separately) and duplicates
+ */
+export function parseReactions(value: unknown): string[] {
+  let emojis: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      emojis = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(emojis)) {
+    return [];
+  }
+  return REACTION_EMOJIS.filter((emoji) => emoji !== LIKE_REACTION && emojis.includes(emoji));
+}
+
+/**
+ * Aggregate reactions per emoji; likes are counted as the ❤️ reaction
+ */
+export function tallyReactions(
+  reactions: Record<string, string[]>,
+  likes: Record<string, boolean>
+): ReactionTally {
+  const tally: ReactionTally = {};
+  REACTION_EMOJIS.forEach((emoji) => {
+    tally[emoji] = [];
+  });
+  Object.keys(likes).forEach((pub) => {
+    if (likes[pub]) {
+      tally[LIKE_REACTION].push(pub);
+    }
+  });
+  Object.keys(reactions).forEach((pub) => {
+    reactions[pub].forEach((emoji) => {
+      if (tally[emoji] && !tally[emoji].includes(pub)) {
+        tally[emoji].push(pub);
+      }
+    });
+  });
+  return tally;
+}
@@ -0,0 +1,64 @@
+/**
+ * Scheduled posts
+ * The queue lives in this device's localStorage (one list per user) and
+ * the client publishes each post through publishPost when it is due, so
+ * scheduled posts only go out while the app is open on this device.
+ */
+import type { PostVisibility } from './postUtils';
+import type { NewPoll } from './polls';
+
+export interface ScheduledPost {
+  id: string;
+  text: string;
+  visibility: PostVisibility;
+  replyToId: string | null;
+  quoteOf: string | null;
+  poll: NewPoll | null;
+  contentWarning: string | null;
+  scheduledAt: number;
+  createdAt: number;
+  error?: string; // Set when publishing failed; the post waits for an edit
+}
+
+const storageKey = (userPub: string) => `scheduledPosts:${userPub}`;
+
+/**
+ * Read the queue of a user, oldest due first
+ */
+export function loadScheduledPosts(userPub: string): ScheduledPost[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(userPub)) || '[]');
+    return Array.isArray(saved)
+      ? saved
+          .filter((post) => post && typeof post.text === 'string' && typeof post.scheduledAt === 'number')
+          .sort((a, b) => a.scheduledAt - b.scheduledAt)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveScheduledPosts(userPub: string, posts: ScheduledPost[]): void {
+  localStorage.setItem(storageKey(userPub), JSON.stringify(posts));
+}
+
+/**
+ * Validate the time of a scheduled post, returning an error message or null
+ */
+export function validateScheduleTime(scheduledAt: number, now: number = Date.now()): string | null {
+  if (!Number.isFinite(scheduledAt)) {
+    return 'Choose when to publish the post';
+  }
+  if (scheduledAt <= now) {
+    return 'The scheduled time must be in the future';
+  }
+  return null;
+}
+
+/**
+ * Format a timestamp for a datetime-local input (local time)
+ */
+export function toDateTimeLocal(time: number): string {
+  const date = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+}
@@ -0,0 +1,157 @@
+/**
+ * Client-side full-text search
+ * Text is tokenized and lightly stemmed (Italian and English suffixes) so
+ * "gatti"/"gatto" and "liked"/"likes" meet on the same token. The same
+ * tokenizer feeds the in-memory SearchIndex and the shared tokens index
+ * that publishPost writes to GunDB.
+ */
+
+export type SearchKind = 'post' | 'user' | 'tag';
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+const STOPWORDS = new Set([
+  // English
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with', 'you',
+  // Italiano
+  'al', 'alla', 'anche', 'che', 'chi', 'con', 'da', 'dal', 'dei', 'del', 'della', 'di', 'e', 'gli',
+  'ha', 'ho', 'i', 'il', 'la', 'le', 'lo', 'ma', 'mi', 'ne', 'nel', 'nella', 'non', 'per', 'se',
+  'si', 'sono', 'su', 'sul', 'ti', 'tra', 'un', 'una', 'uno',
+]);
+
+// Longest first: the first matching suffix that leaves a long enough stem wins
+const SUFFIXES = [
+  // Italiano
+  'azioni', 'azione', 'amente', 'issimo', 'issima', 'issimi', 'issime', 'mente', 'ando', 'endo',
+  'are', 'ere', 'ire', 'ato', 'ata', 'ati', 'ate', 'ito', 'ita', 'iti', 'ite', 'uto', 'uta', 'uti', 'ute',
+  // English
+  'ations', 'ation', 'ness', 'ment', 'ings', 'ing', 'ies', 'ied', 'edly', 'ed', 'ly', 'es', 's',
+  // Vocali finali italiane (gatto/gatti/gatta)
+  'a', 'e', 'i', 'o',
+];
+const MIN_STEM_LENGTH = 3;
+
+/** Max tokens written to the shared index per post */
+export const MAX_INDEXED_TOKENS = 64;
+
+/**
+ * Reduce a lowercase word to its stem
+ */
+export function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length >= MIN_STEM_LENGTH && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Split text into normalized, stemmed tokens (duplicates kept, for term frequency)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '') // strip accents: perché -> perche
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 2 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Unique tokens of a text, capped for the shared index
+ */
+export function uniqueTokens(text: string, limit: number = MAX_INDEXED_TOKENS): string[] {
+  return [...new Set(tokenize(text))].slice(0, limit);
+}
+
+/**
+ * In-memory inverted index, built incrementally from what the client loads
+ */
+export class SearchIndex {
+  // token -> document key -> term frequency
+  private postings = new Map<string, Map<string, number>>();
+  private documents = new Map<string, string[]>(); // document key -> tokens
+
+  /**
+   * Add or replace a document
+   */
+  add(kind: SearchKind, id: string, text: string): void {
+    const key = `${kind}:${id}`;
+    this.remove(kind, id);
+
+    const tokens = tokenize(text);
+    if (tokens.length === 0) {
+      return;
+    }
+    this.documents.set(key, tokens);
+    tokens.forEach((token) => {
+      const docs = this.postings.get(token) || new Map<string, number>();
+      docs.set(key, (docs.get(key) || 0) + 1);
+      this.postings.set(token, docs);
+    });
+  }
+
+  remove(kind: SearchKind, id: string): void {
+    const key = `${kind}:${id}`;
+    const tokens = this.documents.get(key);
+    if (!tokens) {
+      return;
+    }
+    tokens.forEach((token) => {
+      const docs = this.postings.get(token);
+      docs?.delete(key);
+      if (docs && docs.size === 0) {
+        this.postings.delete(token);
+      }
+    });
+    this.documents.delete(key);
+  }
+
+  /**
+   * Rank documents of a kind by TF-IDF against the query
+   * Documents must contain every query token.
+   */
+  search(kind: SearchKind, query: string, limit: number = 20): SearchHit[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    const prefix = `${kind}:`;
+    const totalDocs = this.documents.size || 1;
+    const scores = new Map<string, { score: number; matched: number }>();
+
+    queryTokens.forEach((token) => {
+      const docs = this.postings.get(token);
+      if (!docs) {
+        return;
+      }
+      const idf = Math.log(1 + totalDocs / docs.size);
+      docs.forEach((tf, key) => {
+        if (!key.startsWith(prefix)) {
+          return;
+        }
+        const length = this.documents.get(key)?.length || 1;
+        const entry = scores.get(key) || { score: 0, matched: 0 };
+        entry.score += (tf / length) * idf;
+        entry.matched++;
+        scores.set(key, entry);
+      });
+    });
+
+    return Array.from(scores.entries())
+      .filter(([, entry]) => entry.matched === queryTokens.length)
+      .map(([key, entry]) => ({ id: key.slice(prefix.length), score: entry.score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+/** Index shared by every SocialNetwork instance in this client */
+export const searchIndex = new SearchIndex();
@@ -5,10 +5,118 @@
  */
 
 import type { ShogunCore } from 'shogun-core';
-import type { Post } from './postUtils';
+import {
+  extractMentions,
+  isSealedVisibility,
+  MAX_CONTENT_WARNING_LENGTH,
+  MAX_PINNED_POSTS,
+  normalizeHandle,
+  numberThreadParts,
+  parseContentWarning,
+  parseMentions,
+  parsePinnedPostIds,
+  parseVisibility,
+  type Post,
+  validateThread,
+  type PostVisibility,
+} from './postUtils';
+import { GunMediaStore, isMediaId, type MediaStore } from './mediaStore';
+import { verifyPostSoul } from './postVerification';
+import { parseContentFilter, type ContentFilter } from './contentFilters';
+import { searchIndex, uniqueTokens } from './search';
+import { scoreSuggestions, type FollowSuggestion } from './followSuggestions';
+import { rankTrendingTags, TRENDING_WINDOWS, type TrendingTag, type TrendingWindow } from './trending';
+import {
+  isPollClosed,
+  parsePoll,
+  parsePollVote,
+  validatePoll,
+  type NewPoll,
+  type Poll,
+  type PollVote,
+} from './polls';
+import {
+  getPostAuthorPub,
+  notifyPostAuthor,
+  parseNotification,
+  retractNotification,
+  retractPostNotification,
+  sendNotification,
+  type Notification,
+} from './notifications';
+import { countInteractions, hasInteracted, isInteraction } from './interactions';
+import {
+  isReactionEmoji,
+  LIKE_REACTION,
+  parseReactions,
+  REACTION_EMOJIS,
+  tallyReactions,
+  type ReactionTally,
+} from './reactions';
 
+/** Default number of posts returned by a timeline page */
+const TIMELINE_PAGE_SIZE = 20;
+/** Stop walking back through date buckets after this many consecutive empty days */
+const MAX_EMPTY_TIMELINE_DAYS = 30;
+/** Max time to wait for GunDB to answer a single read before giving up */
+const READ_TIMEOUT = 3000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Shortest public key prefix accepted as a mention (@AbC123xy) */
+const MIN_PUB_PREFIX_LENGTH = 8;
+/** Max posts/users read from the shared search index for a single query */
+const MAX_SEARCH_CANDIDATES = 50;
+/** Max hashtags whose activity is read when computing trends */
+const MAX_TRENDING_TAGS_SCANNED = 200;
+/** Reuse the hashtag activity read by getTrendingHashtags for this long */
+const TRENDING_CACHE_MS = 60 * 1000;
+/** A map().once read is considered complete after this long without new entries */
+const MAP_SETTLE_MS = 500;
+/** Bounds on the graph walked by getFollowSuggestions */
+const MAX_SUGGESTION_FRIENDS = 50;
+const MAX_SUGGESTION_TAGS = 5;
+const MAX_SUGGESTION_TAG_POSTS = 20;
+const MAX_SUGGESTION_OWN_POSTS = 20;
+/** Bounds on the conversation read by getConversationAncestors and getReplyTree */
+const MAX_CONVERSATION_DEPTH = 20;
+const MAX_CONVERSATION_POSTS = 200;
 
+/**
+ * Random 256-bit key for symmetric SEA encryption (followers and direct posts)
+ */
+function generateSymmetricKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...Array.from(bytes)));
+}
+
+/** Id of an account's first followers key (posts sealed before key rotation carry no id) */
+const INITIAL_FOLLOWERS_KEY_ID = '0';
+
+function newFollowersKeyId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * An account's followers keys by id, and the id of the newest one
+ */
+interface FollowersKeyRing {
+  current: string;
+  keys: Record<string, string>;
+}
 
+/**
+ * Followers keys as decrypted from a grant or the owner's ring
+ */
+function parseFollowersKeys(value: any): Record<string, string> {
+  const keys: Record<string, string> = {};
+  if (value && typeof value === 'object') {
+    Object.keys(value).forEach((id) => {
+      if (!id.startsWith('_') && typeof value[id] === 'string' && value[id]) {
+        keys[id] = value[id];
+      }
+    });
+  }
+  return keys;
+}
 
 export interface UserProfile {
   displayName?: string;
@@ -21,6 +129,14 @@ export interface PostWithAuthor extends Post {
   authorProfile?: UserProfile;
 }
 
+/**
+ * A post of a conversation with its replies (see getReplyTree)
+ */
+export interface ConversationNode {
+  post: PostWithAuthor;
+  replies: ConversationNode[]; // Oldest first
+}
+
 export interface PostPayload {
   id: string;
   text: string;
@@ -28,18 +144,169 @@ export interface PostPayload {
   authorPub: string;
   timestamp: number;
   replyTo?: string | null;
+  mentions?: Record<string, string>; // handle -> userPub
+  visibility?: PostVisibility;
+  recipients?: string | null; // Direct posts: JSON map recipient pub -> wrapped post key
+  keyId?: string | null; // Followers-only posts: id of the followers key used
+  quoteOf?: string | null; // Hash of the quoted post
+  poll?: Poll | null;
+  contentWarning?: string | null; // Summary shown instead of the collapsed body
+  sensitive?: boolean; // Media is blurred until clicked
+}
+
+/**
+ * Position inside the date-bucketed timeline.
+ * Serialized into an opaque string cursor by loadTimelinePage.
+ */
+interface TimelineCursorState {
+  day: string; // timeline/YYYY-MM-DD bucket
+  timestamp: number; // timestamp of the last post returned
+  hash: string; // hash of the last post returned (tie-breaker)
+}
+
+export interface TimelinePage {
+  posts: PostWithAuthor[];
+  nextCursor: string | null; // null when there are no older posts
+}
+
+export interface TimelinePageOptions {
+  cursor?: string | null;
+  limit?: number;
+}
+
+/**
+ * A revision of an edited post, stored in the author's signed graph
+ * under revisions/<postHash>/<editedAt>
+ */
+export interface PostRevision {
+  postHash: string;
+  text: string;
+  editedAt: number;
+  previousText: string;
+  mentions?: Record<string, string>; // Mentions resolved from this revision's text
+}
+
+/**
+ * Which notifications the current user has seen, kept in their user space
+ */
+export interface NotificationReadState {
+  lastReadAt: number; // Everything up to this time is read
+  read: Record<string, boolean>; // Newer notifications marked read one by one
+}
+
+/**
+ * A decrypted direct message
+ * Each user stores the messages they send in their own signed graph under
+ * dm/<peerPub>/<id>, encrypted with the ECDH secret shared with the peer.
+ */
+export interface DirectMessage {
+  id: string;
+  from: string;
+  to: string;
+  text: string;
+  timestamp: number;
+}
+
+export interface Conversation {
+  peerPub: string;
+  lastSentAt: number; // Last message sent by the current user
+  lastReceivedAt: number; // Last message sent by the peer
+}
+
+export interface ModerationEntry {
+  since: number;
+  until?: number | null; // Mutes only: null/undefined means until unmuted
+}
+
+/**
+ * Accounts the current user has blocked or muted
+ * Stored SEA-encrypted with the user's own key pair under moderation/list.
+ */
+export interface ModerationList {
+  blocked: Record<string, ModerationEntry>;
+  muted: Record<string, ModerationEntry>;
+}
+
+/**
+ * Readable content of a post, decrypted when needed (see openPostContent)
+ */
+export interface OpenedPostContent {
+  text: string;
+  mentions: Record<string, string>;
+  visibility: PostVisibility;
+  poll: Poll | null;
+  contentWarning: string | null;
+}
+
+/**
+ * A pending request to follow a locked account
+ */
+export interface FollowRequest {
+  requesterPub: string;
+  timestamp: number;
+}
+
+/**
+ * Autosaved composer content (see getDraft)
+ */
+export interface PostDraft {
+  text: string;
+  visibility: PostVisibility;
+  contentWarning: string | null;
+  poll: NewPoll | null;
+  thread: string[]; // Posts after the first one, when composing a thread
+  updatedAt: number;
+}
+
+export type FollowRequestStatus = 'none' | 'pending' | 'approved';
+
+/**
+ * A user who liked or reposted a post (see getPostLikes and getPostReposts)
+ */
+export interface PostInteraction {
+  pub: string;
+  profile: UserProfile;
+  timestamp: number | null; // Null when the time is unknown
+}
+
+export interface UserSearchResult {
+  pub: string;
+  profile: UserProfile;
+  score: number;
+}
+
+export interface TagSearchResult {
+  name: string;
+  score: number;
+}
+
+export interface SearchResults {
+  posts: PostWithAuthor[]; // Best match first
+  users: UserSearchResult[];
+  tags: TagSearchResult[];
 }
 
 export interface SocialNetworkConfig {
   appName?: string;
   shogunCore: ShogunCore;
+  mediaStore?: MediaStore; // Defaults to GunDB content-addressed storage
 }
 
 export class SocialNetwork {
   private gun: any;
   private user: any;
   private appName: string;
+  private mediaStore: MediaStore;
   private profilesCache: Record<string, UserProfile> = {};
+  private revisedTexts: Record<string, string> = {}; // Post id -> latest revision text, for the search index
+  private dmSecrets: Record<string, string> = {};
+  private moderation: ModerationList = { blocked: {}, muted: {} };
+  private moderationPub: string | null = null; // Owner of the loaded list
+  private moderationReady: Promise<void> | null = null;
+  private moderationListeners = new Set<(list: ModerationList) => void>();
+  private hashtagActivity: { loadedAt: number; activity: Record<string, number[]> } | null = null;
+  private followersKeys: Record<string, Record<string, string>> = {}; // `${me}:${author}` -> key id -> key
+  private ownFollowersKeyRings: Record<string, FollowersKeyRing> = {}; // By owner pub
 
   constructor(config: SocialNetworkConfig) {
     if (!config.shogunCore?.gun) {
@@ -49,6 +316,7 @@ export class SocialNetwork {
     this.gun = config.shogunCore.gun;
     this.user = this.gun.user();
     this.appName = config.appName || 'shogun-mistodon-clone-v1';
+    this.mediaStore = config.mediaStore || new GunMediaStore(this.gun);
   }
 
   /**
@@ -116,14 +384,28 @@ export class SocialNetwork {
   }
 
   /**
-   * Simulate media upload to IPFS
-   * In a real implementation, this would use an IPFS library
+   * Upload media to the configured media store
+   * Returns the content ID to save in the post's `media` field
    */
   async uploadMedia(fileBlob: Blob): Promise<string> {
-    console.log('Simulazione upload su IPFS...');
-    // TODO: Implement real IPFS upload
-    // For now, return a fake CID
-    return 'QmFakeHash' + Math.floor(Math.random() * 100000);
+    return this.mediaStore.put(fileBlob);
+  }
+
+  /**
+   * Resolve a post's `media` field to a URL an <img> can display
+   * Media store IDs become object URLs (revoke them when done); plain URLs pass through
+   */
+  async resolveMediaUrl(media: string): Promise<string | null> {
+    if (media.startsWith('http') || media.startsWith('data:')) {
+      return media;
+    }
+    if (!isMediaId(media)) {
+      // Legacy placeholder CIDs were never stored anywhere
+      return null;
+    }
+
+    const blob = await this.mediaStore.get(media);
+    return blob ? URL.createObjectURL(blob) : null;
   }
 
   /**
@@ -134,15 +416,45 @@ export class SocialNetwork {
   async publishPost(
     text: string,
     mediaFile: Blob | null = null,
-    replyToId: string | null = null
+    replyToId: string | null = null,
+    requestedVisibility: PostVisibility = 'public',
+    quoteOf: string | null = null,
+    newPoll: NewPoll | null = null,
+    contentWarning: string | null = null,
+    sensitive: boolean = false
   ): Promise<{ success: boolean; error?: string; id?: string; hash?: string }> {
     if (!this.isAuthenticated()) {
       return { success: false, error: 'Non sei loggato' };
     }
 
+    const warning = contentWarning?.trim() || null;
+    if (warning && warning.length > MAX_CONTENT_WARNING_LENGTH) {
+      return {
+        success: false,
+        error: `Content warnings are limited to ${MAX_CONTENT_WARNING_LENGTH} characters`,
+      };
+    }
+
+    const pollError = newPoll && validatePoll(newPoll);
+    if (pollError) {
+      return { success: false, error: pollError };
+    }
+
+    if (quoteOf && !(await this._loadPostByHash(quoteOf))) {
+      return { success: false, error: 'The quoted post is not available' };
+    }
+
     let mediaCid: string | null = null;
     if (mediaFile) {
-      mediaCid = await this.uploadMedia(mediaFile);
+      try {
+        mediaCid = await this.uploadMedia(mediaFile);
+      } catch (error) {
+        console.error('Error uploading media:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to upload media',
+        };
+      }
     }
 
     const timestamp = Date.now();
@@ -158,13 +470,83 @@ export class SocialNetwork {
       return { success: false, error: 'SEA not available - content-addressed storage requires SEA' };
     }
 
+    // Resolve @mentions before storing: the post keeps handle -> pub so
+    // readers don't depend on the (mutable) handle directory
+    const mentions = await this.resolveMentions(text);
+    const mentionedPubs = [...new Set(Object.values(mentions))];
+    const serializedMentions = mentionedPubs.length > 0 ? JSON.stringify(mentions) : null;
+    const serializedPoll = newPoll
+      ? JSON.stringify({
+          options: newPoll.options.map((option) => option.trim()),
+          multiple: newPoll.multiple,
+          closesAt: timestamp + newPoll.durationMs,
+        })
+      : null;
+
+    // Posts of a locked account are readable by approved followers at most;
+    // if the flag cannot be read the post is refused rather than published
+    // in plaintext
+    const locked = await this._readAccountLocked(userPub);
+    if (locked === null) {
+      return { success: false, error: 'Could not check whether the account is locked, try again' };
+    }
+    let visibility = requestedVisibility;
+    if ((visibility === 'public' || visibility === 'unlisted') && locked) {
+      visibility = 'followers';
+    }
+    const recipientPubs = mentionedPubs.filter((pub) => pub !== userPub);
+    if (visibility === 'direct' && recipientPubs.length === 0) {
+      return { success: false, error: 'Mention at least one user to send a direct post' };
+    }
+
+    let storedText = text;
+    let storedMentions = serializedMentions;
+    let storedPoll = serializedPoll;
+    let storedWarning = warning;
+    let recipients: string | null = null;
+    let keyId: string | null = null;
+    if (isSealedVisibility(visibility)) {
+      try {
+        let key: string;
+        if (visibility === 'direct') {
+          ({ key, recipients } = await this._createDirectKey(recipientPubs));
+        } else {
+          ({ key, keyId } = await this._getOwnFollowersKey());
+          // Anyone may follow an unlocked account: its current followers (with
+          // a signed follow) get the key here; locked accounts grant it on approval
+          if (requestedVisibility === 'followers' && !locked) {
+            await this._grantFollowerKeyToFollowers(userPub);
+          }
+        }
+        storedText = await this._seal(key, text);
+        storedMentions = serializedMentions && (await this._seal(key, serializedMentions));
+        storedPoll = serializedPoll && (await this._seal(key, serializedPoll));
+        storedWarning = warning && (await this._seal(key, warning));
+      } catch (error) {
+        console.error('Error encrypting post:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to encrypt post',
+        };
+      }
+    }
+
     // Create post data object (will be stored in user's signed graph)
     const postData = {
-      text: text,
+      text: storedText,
       media: mediaCid,
       authorPub: userPub,
       timestamp: timestamp,
       replyTo: replyToId,
+      mentions: storedMentions,
+      visibility: visibility === 'public' ? null : visibility,
+      recipients,
+      keyId, // Followers key the post is sealed with
+      quoteOf,
+      poll: storedPoll,
+      contentWarning: storedWarning,
+      // Only media can be blurred
+      sensitive: mediaCid && sensitive ? true : null,
     };
 
     try {
@@ -184,8 +566,12 @@ export class SocialNetwork {
               this.gun.get('#posts').get(postHash).put(postSoul);
               
               // 4. Save hash to app-specific timeline for discovery (with date)
-              const timeKey = new Date().toISOString().split('T')[0];
-              this.gun.get(this.appName).get('timeline').get(timeKey).get(postHash).put(postSoul);
+              // Unlisted posts are reached from the author's profile or a link;
+              // encrypted posts are listed, but only their readers can open them
+              if (visibility !== 'unlisted') {
+                const timeKey = new Date().toISOString().split('T')[0];
+                this.gun.get(this.appName).get('timeline').get(timeKey).get(postHash).put(postSoul);
+              }
               
               // 5. Save to users/{userPub}/posts for "My Posts" view (using hash as key)
               const userPublicNode = this.gun.get('users').get(userPub);
@@ -208,9 +594,33 @@ export class SocialNetwork {
                 // Also set the node reference for graph navigation
                 parentPostNode.get('replies').set(postNode);
                 postNode.get('replyTo').put(parentPostNode);
+
+                getPostAuthorPub(this.gun, replyToId, READ_TIMEOUT).then((parentAuthor) => {
+                  if (parentAuthor) {
+                    sendNotification(this.gun, parentAuthor, {
+                      type: 'reply',
+                      actorPub: userPub,
+                      postId: replyToId,
+                      replyId: postHash,
+                      timestamp,
+                    });
+                  }
+                });
               }
               
-              // 8. Hashtag Index with bidirectional references
+              // 7b. Quote back-reference on the original (encrypted quotes
+              // stay off it, like the other public indexes)
+              if (quoteOf && !isSealedVisibility(visibility)) {
+                postNode.get('quoteOf').put(this.gun.get(this.appName).get('posts').get(quoteOf));
+                this.gun
+                  .get(this.appName)
+                  .get('posts')
+                  .get(quoteOf)
+                  .get('quotes')
+                  .get(postHash)
+                  .put({ hash: postHash, timestamp: timestamp });
+              }
+
               const postPayload: PostPayload = {
                 id: postHash,
                 text: text,
@@ -218,8 +628,27 @@ export class SocialNetwork {
                 authorPub: userPub,
                 timestamp: timestamp,
                 replyTo: replyToId,
+                mentions,
+                quoteOf,
               };
-              this._indexHashtags(text, postPayload, postNode);
+
+              // Public indexes would leak the text of encrypted posts
+              if (visibility === 'public') {
+                // 8. Hashtag Index with bidirectional references
+                this._indexHashtags(text, postPayload, postNode);
+
+                // 10. Shared full-text index (see search)
+                this._indexSearchTokens(text, postHash, timestamp);
+              }
+
+              // 9. Mentions index on each mentioned user's public node (the
+              // mentions of followers-only posts are private); this is how
+              // the recipients of a direct post find it
+              if (visibility !== 'followers') {
+                this._indexMentions(mentionedPubs, postPayload);
+              }
+              this._registerHandles(userPub);
+              this._indexProfileSearchTokens(userPub);
               
               resolve({ success: true, id: postHash, hash: postHash });
             } catch (hashError) {
@@ -242,217 +671,3370 @@ export class SocialNetwork {
   }
 
   /**
-   * Index hashtags from post text with bidirectional references (GUN Design Pattern)
+   * Publish a numbered thread as a chain of self-replies
+   * Each post replies to the previous one; media, quote and poll go on the
+   * first post, the content warning on all of them. If a post fails, the
+   * ones already published are deleted with their references and the reply
+   * and mention notifications they sent are retracted, so a thread is never
+   * left half-written.
+   */
+  async publishThread(
+    parts: string[],
+    mediaFile: Blob | null = null,
+    replyToId: string | null = null,
+    visibility: PostVisibility = 'public',
+    quoteOf: string | null = null,
+    newPoll: NewPoll | null = null,
+    contentWarning: string | null = null,
+    sensitive: boolean = false
+  ): Promise<{ success: boolean; error?: string; id?: string; ids?: string[] }> {
+    const validation = validateThread(parts);
+    if (!validation.valid) {
+      return { success: false, error: validation.error };
+    }
+    // The recipients of a direct post come from its own mentions
+    if (visibility === 'direct' && parts.length > 1) {
+      return { success: false, error: 'Direct posts cannot be threads' };
+    }
+
+    const ids: string[] = [];
+    const texts = numberThreadParts(parts);
+    for (let index = 0; index < texts.length; index++) {
+      const isFirst = index === 0;
+      const result = await this.publishPost(
+        texts[index],
+        isFirst ? mediaFile : null,
+        isFirst ? replyToId : ids[index - 1],
+        visibility,
+        isFirst ? quoteOf : null,
+        isFirst ? newPoll : null,
+        contentWarning,
+        isFirst && sensitive
+      );
+
+      if (!result.success || !result.hash) {
+        for (let published = ids.length - 1; published >= 0; published--) {
+          const parentId = published === 0 ? replyToId : ids[published - 1];
+          await this._retractPostNotifications(ids[published], parentId, texts[published]);
+          await this.deletePost(ids[published]);
+        }
+        const error = result.error || 'Failed to publish post';
+        return { success: false, error: texts.length > 1 ? `Post ${index + 1} of the thread: ${error}` : error };
+      }
+      ids.push(result.hash);
+    }
+
+    return { success: true, id: ids[0], ids };
+  }
+
+  /**
+   * Retract the reply and mention notifications sent when publishing a post
+   * Works from what was published rather than reading the post back, as
+   * deletePost does: the mentions of encrypted posts are not readable there.
+   */
+  private async _retractPostNotifications(postId: string, replyToId: string | null, text: string): Promise<void> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return;
+    }
+
+    if (replyToId) {
+      const parentAuthor = await getPostAuthorPub(this.gun, replyToId, READ_TIMEOUT);
+      if (parentAuthor) {
+        retractNotification(this.gun, parentAuthor, 'reply', userPub, postId);
+      }
+    }
+    const mentions = await this.resolveMentions(text);
+    new Set(Object.values(mentions)).forEach((mentionedPub) => {
+      retractNotification(this.gun, mentionedPub, 'mention', userPub, postId);
+    });
+  }
+
+  /**
+   * Index hashtags from post text with bidirectional references (GUN Design Pattern)
+   */
+  private _indexHashtags(text: string, postData: PostPayload, postNode: any): void {
+    const hashtags = text.match(/#\w+/g);
+    if (hashtags) {
+      hashtags.forEach((tag) => {
+        const cleanTag = tag.replace('#', '').toLowerCase();
+        const tagNode = this.gun.get(this.appName).get('hashtags').get(cleanTag);
+        
+        // Create tag object if it doesn't exist
+        const tagData = {
+          name: cleanTag,
+          slug: cleanTag,
+        };
+        tagNode.put(tagData);
+        
+        // Bidirectional references: Tag ↔ Post
+        // Tag → Posts reference (save hash explicitly for easier retrieval)
+        const postHash = postData.id;
+        tagNode.get('posts').get(postHash).put({ hash: postHash, timestamp: postData.timestamp });
+        // Also set the node reference for graph navigation
+        tagNode.get('posts').set(postNode);
+        // Post → Tags reference
+        postNode.get('tags').set(tagNode);
+      });
+    }
+  }
+
+  /**
+   * Remove a post from the index of hashtags it no longer contains
+   */
+  private _unindexHashtags(tags: string[], postHash: string): void {
+    const postNode = this.gun.get(this.appName).get('posts').get(postHash);
+    tags.forEach((cleanTag) => {
+      const tagNode = this.gun.get(this.appName).get('hashtags').get(cleanTag);
+      tagNode.get('posts').get(postHash).put(null);
+      postNode.get('tags').get(cleanTag).put(null);
+    });
+  }
+
+  /**
+   * Extract unique, normalized hashtags from post text
+   */
+  private _extractHashtags(text: string): string[] {
+    const hashtags = text.match(/#\w+/g) || [];
+    return [...new Set(hashtags.map((tag) => tag.replace('#', '').toLowerCase()))];
+  }
+
+  /**
+   * Resolve the @mentions in a text to user pubs
+   * A mention is either a display name (@alice, spaces dropped) or a public
+   * key prefix of at least MIN_PUB_PREFIX_LENGTH characters. Unknown handles
+   * are left out of the result.
+   */
+  async resolveMentions(text: string): Promise<Record<string, string>> {
+    const mentions: Record<string, string> = {};
+    await Promise.all(
+      extractMentions(text).map(async (handle) => {
+        const pub = await this.resolveHandle(handle);
+        if (pub) {
+          mentions[handle.toLowerCase()] = pub;
+        }
+      })
+    );
+    return mentions;
+  }
+
+  /**
+   * Resolve a single handle (display name or pub prefix) to a user pub
+   */
+  async resolveHandle(handle: string): Promise<string | null> {
+    const directory = this.gun.get(this.appName).get('directory');
+
+    // Public key prefix: candidates come from the keys directory
+    if (handle.length >= MIN_PUB_PREFIX_LENGTH) {
+      const candidates = await this._readDirectoryEntry(
+        directory.get('keys').get(handle.slice(0, MIN_PUB_PREFIX_LENGTH))
+      );
+      const pub = candidates.find((candidate) => candidate.startsWith(handle));
+      if (pub) {
+        return pub;
+      }
+    }
+
+    // Display name: the directory is public, so only accept a candidate
+    // whose own profile still carries that name
+    const normalized = normalizeHandle(handle);
+    if (!normalized) {
+      return null;
+    }
+    const candidates = await this._readDirectoryEntry(directory.get('names').get(normalized));
+    for (const candidate of candidates) {
+      const names = await this._getDisplayNames(candidate);
+      if (names.some((name) => normalizeHandle(name) === normalized)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * View posts that mention a user (content-addressed)
+   * The mentions index is public, so each post is verified and must list
+   * the user among its resolved mentions
+   */
+  viewMentions(userPub: string, callback: (post: PostWithAuthor) => void): () => void {
+    callback = this._moderated(callback, (post) => post.author);
+    const mentionsNode = this.gun.get('users').get(userPub).get('mentions');
+    const processedHashes = new Set<string>();
+
+    mentionsNode.map().on(async (entry: any, key: string) => {
+      if (!key || key.startsWith('_') || processedHashes.has(key)) {
+        return;
+      }
+      if (!entry || typeof entry !== 'object') {
+        return;
+      }
+      processedHashes.add(key);
+
+      // Deleted posts stay readable by hash, so check they are still listed
+      const postPayload = await this._loadPostByHash(entry.hash || key);
+      if (
+        postPayload &&
+        Object.values(postPayload.mentions || {}).includes(userPub) &&
+        (await this._isPostListed(postPayload))
+      ) {
+        this.getPostWithAuthor(postPayload, callback);
+      }
+    });
+
+    return () => {
+      try {
+        mentionsNode.map().off();
+      } catch (e) {
+        console.error('Error cleaning up mentions listener:', e);
+      }
+    };
+  }
+
+  /**
+   * Add a post to the mentions index of each mentioned user and notify them
+   */
+  private _indexMentions(mentionedPubs: string[], postData: PostPayload): void {
+    mentionedPubs
+      .filter((pub) => pub !== postData.authorPub)
+      .forEach((pub) => {
+        this.gun.get('users').get(pub).get('mentions').get(postData.id).put({
+          hash: postData.id,
+          timestamp: postData.timestamp,
+          authorPub: postData.authorPub,
+        });
+        sendNotification(this.gun, pub, {
+          type: 'mention',
+          actorPub: postData.authorPub,
+          postId: postData.id,
+        });
+      });
+  }
+
+  /**
+   * Publish the user's current display names and pub prefix in the handle
+   * directory so others can mention them
+   */
+  private async _registerHandles(userPub: string): Promise<void> {
+    const directory = this.gun.get(this.appName).get('directory');
+    directory.get('keys').get(userPub.slice(0, MIN_PUB_PREFIX_LENGTH)).get(userPub).put(true);
+
+    const names = await this._getDisplayNames(userPub);
+    names.forEach((name) => {
+      const handle = normalizeHandle(name);
+      if (handle) {
+        directory.get('names').get(handle).get(userPub).put(true);
+      }
+    });
+  }
+
+  /**
+   * Read the names a user goes by, from both the signed profile and the
+   * public users/<pub>/profile node (displayName or username)
+   */
+  private async _getDisplayNames(userPub: string): Promise<string[]> {
+    const readNames = (node: any) =>
+      new Promise<string[]>((resolve) => {
+        const timeoutId = setTimeout(() => resolve([]), READ_TIMEOUT);
+        node.once((profile: any) => {
+          clearTimeout(timeoutId);
+          if (!profile || typeof profile !== 'object') {
+            resolve([]);
+            return;
+          }
+          resolve([profile.displayName, profile.username].filter((name) => typeof name === 'string' && name));
+        });
+      });
+
+    const names = await Promise.all([
+      readNames(this.gun.user(userPub).get('profile')),
+      readNames(this.gun.get('users').get(userPub).get('profile')),
+    ]);
+    return [...new Set(names.flat())];
+  }
+
+  /**
+   * Read the pubs listed under a directory entry
+   */
+  private _readDirectoryEntry(node: any): Promise<string[]> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve([]), READ_TIMEOUT);
+      node.once((data: any) => {
+        clearTimeout(timeoutId);
+        if (!data || typeof data !== 'object') {
+          resolve([]);
+          return;
+        }
+        resolve(Object.keys(data).filter((key) => !key.startsWith('_') && data[key] === true));
+      });
+    });
+  }
+
+  /**
+   * Resolve a post hash to the soul of its data in the author's signed graph
+   */
+  private async _resolvePostSoul(postId: string): Promise<string | null> {
+    const soul = await new Promise<string | null>((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.gun.get('#posts').get(postId).once((data: string) => {
+        clearTimeout(timeoutId);
+        resolve(data && typeof data === 'string' ? data : null);
+      });
+    });
+    if (soul) {
+      return soul;
+    }
+
+    // Fallback: the author's public posts index keeps the soul too
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return null;
+    }
+    return new Promise<string | null>((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.gun.get('users').get(userPub).get('posts').get(postId).once((entry: any) => {
+        clearTimeout(timeoutId);
+        resolve(entry && typeof entry === 'object' && entry.soul ? entry.soul : null);
+      });
+    });
+  }
+
+  /**
+   * Edit a post (only if user is the author)
+   * Posts are immutable, so the new text is appended as a revision in the
+   * author's signed graph, linked to the original post hash. Readers show
+   * the latest revision (see viewPostRevisions).
+   */
+  async editPost(postId: string, newText: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.isAuthenticated()) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Chiave pubblica utente non trovata' };
+    }
+
+    try {
+      const postSoul = await this._resolvePostSoul(postId);
+      const original = postSoul ? await this._loadPostPayload(postId, postSoul) : null;
+      if (!original) {
+        return { success: false, error: 'Post not found' };
+      }
+      if (original.authorPub !== userPub) {
+        return { success: false, error: 'You can only edit your own posts' };
+      }
+
+      const latest = await this.getLatestRevision(postId, userPub);
+      const previousText = latest ? latest.text : original.text;
+      if (previousText === newText) {
+        return { success: true };
+      }
+
+      // Append the revision to the signed graph (only the author can write here)
+      const mentions = await this.resolveMentions(newText);
+      const revision: PostRevision = {
+        postHash: postId,
+        text: newText,
+        editedAt: Date.now(),
+        previousText,
+        mentions,
+      };
+      // Revisions of encrypted posts are sealed with the key of the post,
+      // so a direct post keeps its original recipients
+      const isSealed = isSealedVisibility(original.visibility);
+      const key = isSealed ? await this._getContentKey(original, userPub) : null;
+      if (isSealed && !key) {
+        return { success: false, error: 'Encryption key of the post not available' };
+      }
+      const storedRevision = key
+        ? {
+            ...revision,
+            text: await this._seal(key, newText),
+            previousText: await this._seal(key, previousText),
+            mentions: await this._seal(key, JSON.stringify(mentions)),
+            visibility: original.visibility,
+            recipients: original.recipients || null,
+            keyId: original.keyId || null,
+          }
+        : { ...revision, mentions: JSON.stringify(mentions) };
+      await new Promise<void>((resolve, reject) => {
+        this.user
+          .get('revisions')
+          .get(postId)
+          .get(String(revision.editedAt))
+          .put(storedRevision, (ack: any) => (ack?.err ? reject(new Error(ack.err)) : resolve()));
+      });
+      this.revisedTexts[postId] = newText;
+      this._addToSearchIndex({ id: postId, content: newText });
+      if (isSealed) {
+        return { success: true };
+      }
+
+      // Index users newly mentioned by the edit
+      const previousPubs = Object.values(latest?.mentions || original.mentions || {});
+      this._indexMentions(
+        [...new Set(Object.values(mentions))].filter((pub) => !previousPubs.includes(pub)),
+        { ...original, text: newText }
+      );
+      if (original.visibility === 'unlisted') {
+        return { success: true };
+      }
+
+      // Re-index hashtags that were added or removed
+      const previousTags = this._extractHashtags(previousText);
+      const newTags = this._extractHashtags(newText);
+      const postNode = this.gun.get(this.appName).get('posts').get(postId);
+      this._unindexHashtags(
+        previousTags.filter((tag) => !newTags.includes(tag)),
+        postId
+      );
+      this._indexHashtags(newText, { ...original, text: newText }, postNode);
+      const newTokens = uniqueTokens(newText);
+      this._unindexSearchTokens(
+        uniqueTokens(previousText).filter((token) => !newTokens.includes(token)),
+        postId
+      );
+      this._indexSearchTokens(newText, postId, original.timestamp);
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error editing post:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to edit post',
+      };
+    }
+  }
+
+  /**
+   * View the revision history of a post, read from the author's signed graph
+   */
+  viewPostRevisions(
+    postId: string,
+    authorPub: string,
+    callback: (revision: PostRevision) => void
+  ): () => void {
+    const revisionsNode = this.gun.user(authorPub).get('revisions').get(postId);
+
+    revisionsNode.map().on(async (data: any, key: string) => {
+      if (key && !key.startsWith('_')) {
+        const revision = await this._parseRevision(data, key, postId, authorPub);
+        if (revision) {
+          callback(revision);
+        }
+      }
+    });
+
+    return () => {
+      try {
+        revisionsNode.map().off();
+      } catch (e) {
+        console.error('Error cleaning up revisions listener:', e);
+      }
+    };
+  }
+
+  /**
+   * Users mentioned by any revision of a post (edits index the users they
+   * add, so all of them have to be withdrawn when the post is deleted)
+   */
+  private async _readRevisionMentions(postId: string, authorPub: string): Promise<string[]> {
+    const entries = await this._readMapEntries(this.gun.user(authorPub).get('revisions').get(postId));
+    const revisions = await Promise.all(
+      Object.keys(entries).map((key) => this._parseRevision(entries[key], key, postId, authorPub))
+    );
+    return revisions.flatMap((revision) => (revision ? Object.values(revision.mentions || {}) : []));
+  }
+
+  /**
+   * Get the most recent revision of a post, or null if it was never edited
+   */
+  getLatestRevision(postId: string, authorPub: string): Promise<PostRevision | null> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.gun.user(authorPub).get('revisions').get(postId).once((data: any) => {
+        clearTimeout(timeoutId);
+        if (!data || typeof data !== 'object') {
+          resolve(null);
+          return;
+        }
+
+        const keys = Object.keys(data).filter((key) => !key.startsWith('_') && data[key]);
+        if (keys.length === 0) {
+          resolve(null);
+          return;
+        }
+
+        const latestKey = keys.sort((a, b) => Number(b) - Number(a))[0];
+        const revisionTimeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+        this.gun.user(authorPub).get('revisions').get(postId).get(latestKey).once((revision: any) => {
+          clearTimeout(revisionTimeoutId);
+          this._parseRevision(revision, latestKey, postId, authorPub).then(resolve);
+        });
+      });
+    });
+  }
+
+  /**
+   * Parse a revision read from the author's signed graph, decrypting the
+   * revisions of encrypted posts; null if invalid or unreadable
+   */
+  private async _parseRevision(
+    data: any,
+    key: string,
+    postId: string,
+    authorPub: string
+  ): Promise<PostRevision | null> {
+    if (!data || typeof data !== 'object' || data.postHash !== postId) {
+      return null;
+    }
+
+    let { text, previousText, mentions } = data;
+    if (isSealedVisibility(data.visibility)) {
+      const key = await this._getContentKey(data, authorPub);
+      text = key ? await this._open(key, text) : null;
+      if (!key || text === null) {
+        return null;
+      }
+      previousText = await this._open(key, previousText);
+      mentions = await this._open(key, mentions);
+    }
+
+    return {
+      postHash: data.postHash,
+      text: text || '',
+      editedAt: data.editedAt || Number(key),
+      previousText: previousText || '',
+      mentions: parseMentions(mentions),
+    };
+  }
+
+  /**
+   * Get post with author profile information
+   * Handles both PostPayload (content-addressed) and Post (legacy) formats
+   */
+  getPostWithAuthor(
+    postData: PostPayload | Post,
+    callback: (post: PostWithAuthor) => void
+  ): void {
+    const authorPub = 'authorPub' in postData ? postData.authorPub : postData.author;
+
+    // Convert PostPayload to Post format for consistency
+    const post: Post = {
+      id: postData.id,
+      author: authorPub,
+      content: 'text' in postData ? postData.text : postData.content,
+      timestamp: postData.timestamp,
+      likes: 'likes' in postData ? postData.likes : {},
+      reposts: 'reposts' in postData ? postData.reposts : {},
+      replyTo: postData.replyTo || undefined,
+      media: 'media' in postData ? postData.media : postData.media,
+      mentions: postData.mentions,
+      visibility: postData.visibility,
+      quoteOf: postData.quoteOf || undefined,
+      poll: postData.poll || undefined,
+      contentWarning: postData.contentWarning || undefined,
+      sensitive: postData.sensitive || undefined,
+    };
+    // Edited posts stay indexed on their latest revision, not the original
+    this._addToSearchIndex({ id: post.id, content: this.revisedTexts[post.id] ?? post.content });
+
+    // If we have the author in cache, use it
+    if (this.profilesCache[authorPub]) {
+      callback({
+        ...post,
+        authorProfile: this.profilesCache[authorPub],
+      });
+    } else {
+      // Otherwise, fetch from user space
+      this.gun.user(authorPub).get('profile').once((profile: UserProfile) => {
+        this._cacheProfile(authorPub, profile);
+        callback({
+          ...post,
+          authorProfile: this.profilesCache[authorPub],
+        });
+      });
+    }
+  }
+
+  /**
+   * View global timeline (content-addressed immutable posts)
+   * Subscribes to today's bucket for real-time updates.
+   * Older buckets are loaded on demand with loadTimelinePage.
+   */
+  viewGlobalTimeline(callback: (post: PostWithAuthor) => void): () => void {
+    const today = this._dayKey(Date.now());
+    callback = this._moderated(callback, (post) => post.author);
+
+    this.gun
+      .get(this.appName)
+      .get('timeline')
+      .get(today)
+      .map()
+      .on((postSoul: string, hash: string) => {
+        if (postSoul && typeof postSoul === 'string' && hash && !hash.startsWith('_')) {
+          // Get the actual (verified) post data using the soul
+          this._loadPostPayload(hash, postSoul).then((postPayload) => {
+            if (postPayload) {
+              this.getPostWithAuthor(postPayload, callback);
+            }
+          });
+        }
+      });
+
+    // Return cleanup function
+    return () => {
+      try {
+        this.gun.get(this.appName).get('timeline').get(today).map().off();
+      } catch (e) {
+        console.error('Error cleaning up timeline listener:', e);
+      }
+    };
+  }
+
+  /**
+   * Load a page of the global timeline, newest first.
+   * Walks the timeline/YYYY-MM-DD buckets backwards, starting from the
+   * position encoded in the cursor (or from today when no cursor is given).
+   * Stops after MAX_EMPTY_TIMELINE_DAYS consecutive empty days.
+   */
+  async loadTimelinePage(options: TimelinePageOptions = {}): Promise<TimelinePage> {
+    const limit = options.limit || TIMELINE_PAGE_SIZE;
+    const start = (options.cursor && this._decodeTimelineCursor(options.cursor)) || null;
+    await this._loadModeration();
+
+    const posts: PostWithAuthor[] = [];
+    let day = start ? start.day : this._dayKey(Date.now());
+    let emptyDays = 0;
+    const bucketReads = new Map<string, Promise<Record<string, string>>>();
+    const readBucket = (bucketDay: string) => {
+      if (!bucketReads.has(bucketDay)) {
+        bucketReads.set(bucketDay, this._readTimelineBucket(bucketDay));
+      }
+      return bucketReads.get(bucketDay)!;
+    };
+
+    while (emptyDays < MAX_EMPTY_TIMELINE_DAYS) {
+      // After an empty day, read the rest of the allowed gap in parallel, so
+      // reaching the end of history waits for one read instead of one per day
+      if (emptyDays > 0) {
+        let ahead = day;
+        for (let gap = emptyDays; gap < MAX_EMPTY_TIMELINE_DAYS; gap++) {
+          readBucket(ahead);
+          ahead = this._previousDayKey(ahead);
+        }
+      }
+      const bucket = await this._loadTimelineBucket(await readBucket(day));
+      // Skip what was already returned by previous pages
+      const remaining = start && start.day === day
+        ? bucket.filter((post) =>
+            post.timestamp < start.timestamp ||
+            (post.timestamp === start.timestamp && post.id < start.hash)
+          )
+        : bucket;
+
+      if (remaining.length === 0) {
+        emptyDays++;
+      } else {
+        emptyDays = 0;
+        for (const payload of remaining) {
+          if (this.isAuthorHidden(payload.authorPub)) {
+            continue;
+          }
+          posts.push(await this._withAuthor(payload));
+          if (posts.length >= limit) {
+            return {
+              posts,
+              nextCursor: this._encodeTimelineCursor({
+                day,
+                timestamp: payload.timestamp,
+                hash: payload.id,
+              }),
+            };
+          }
+        }
+      }
+
+      day = this._previousDayKey(day);
+    }
+
+    return { posts, nextCursor: null };
+  }
+
+  /**
+   * Read the entries of a timeline bucket (hash -> soul), empty if missing
+   * or if the read timed out
+   */
+  private _readTimelineBucket(day: string): Promise<Record<string, string>> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve({}), READ_TIMEOUT);
+      this.gun.get(this.appName).get('timeline').get(day).once((data: any) => {
+        clearTimeout(timeoutId);
+        const bucket: Record<string, string> = {};
+        if (data && typeof data === 'object') {
+          Object.keys(data)
+            .filter((hash) => !hash.startsWith('_') && typeof data[hash] === 'string')
+            .forEach((hash) => {
+              bucket[hash] = data[hash];
+            });
+        }
+        resolve(bucket);
+      });
+    });
+  }
+
+  /**
+   * Read every post referenced by a timeline bucket, sorted newest first
+   */
+  private async _loadTimelineBucket(bucket: Record<string, string>): Promise<PostPayload[]> {
+    const entries = Object.keys(bucket);
+    const payloads = await Promise.all(
+      entries.map((hash) => this._loadPostPayload(hash, bucket[hash]))
+    );
+
+    return payloads
+      .filter((payload): payload is PostPayload => !!payload)
+      .sort((a, b) => b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+  }
+
+  /**
+   * Read a post payload from its soul (content-addressed storage)
+   * Posts whose soul is not in the author's signed graph, or whose hash
+   * does not match the soul, are dropped (see verifyPostSoul)
+   */
+  private async _loadPostPayload(hash: string, postSoul: string): Promise<PostPayload | null> {
+    const postData = await new Promise<any>((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.gun.get(postSoul).once((data: any) => {
+        clearTimeout(timeoutId);
+        resolve(data && typeof data === 'object' && data.text ? data : null);
+      });
+    });
+    if (!postData) {
+      return null;
+    }
+
+    const authorPub = postData.authorPub || '';
+    if (!(await verifyPostSoul(this.gun, hash, postSoul, authorPub))) {
+      console.warn('Dropping unverified post:', hash, postSoul);
+      return null;
+    }
+
+    // Encrypted posts the current user cannot decrypt are dropped
+    const content = await this.openPostContent(postData);
+    if (!content) {
+      return null;
+    }
+    return {
+      id: hash,
+      text: content.text,
+      media: postData.media || null,
+      authorPub,
+      timestamp: postData.timestamp || Date.now(),
+      replyTo: postData.replyTo || null,
+      mentions: content.mentions,
+      visibility: content.visibility,
+      recipients: postData.recipients || null,
+      keyId: postData.keyId || null,
+      quoteOf: postData.quoteOf || null,
+      poll: content.poll,
+      contentWarning: content.contentWarning,
+      sensitive: postData.sensitive === true,
+    };
+  }
+
+  /**
+   * Resolve a post hash through #posts and read its verified payload
+   */
+  private _loadPostByHash(postHash: string): Promise<PostPayload | null> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.gun.get('#posts').get(postHash).once((postSoul: string) => {
+        clearTimeout(timeoutId);
+        if (postSoul && typeof postSoul === 'string') {
+          this._loadPostPayload(postHash, postSoul).then(resolve);
+        } else {
+          resolve(null);
+        }
+      });
+    });
+  }
+
+  /**
+   * Promise wrapper around getPostWithAuthor
+   */
+  private _withAuthor(payload: PostPayload): Promise<PostWithAuthor> {
+    return new Promise((resolve) => this.getPostWithAuthor(payload, resolve));
+  }
+
+  private _dayKey(time: number): string {
+    return new Date(time).toISOString().split('T')[0];
+  }
+
+  private _previousDayKey(day: string): string {
+    return this._dayKey(new Date(`${day}T00:00:00.000Z`).getTime() - DAY_MS);
+  }
+
+  private _encodeTimelineCursor(state: TimelineCursorState): string {
+    return btoa(JSON.stringify([state.day, state.timestamp, state.hash]));
+  }
+
+  private _decodeTimelineCursor(cursor: string): TimelineCursorState | null {
+    try {
+      const [day, timestamp, hash] = JSON.parse(atob(cursor));
+      if (typeof day === 'string' && typeof timestamp === 'number' && typeof hash === 'string') {
+        return { day, timestamp, hash };
+      }
+    } catch (e) {
+      // Fall through to the warning below
+    }
+    console.warn('Invalid timeline cursor, starting from the newest posts:', cursor);
+    return null;
+  }
+
+  /**
+   * View timeline of followed users only (content-addressed)
+   */
+  viewFollowingTimeline(followingList: string[], callback: (post: PostWithAuthor) => void): () => void {
+    if (!followingList || followingList.length === 0) {
+      // Return empty cleanup function if no following
+      return () => {};
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const followingSet = new Set(followingList);
+    const cleanupFunctions: (() => void)[] = [];
+    callback = this._moderated(callback, (post) => post.author);
+
+    // Listen to timeline and filter by following (content-addressed)
+    this.gun
+      .get(this.appName)
+      .get('timeline')
+      .get(today)
+      .map()
+      .on((postSoul: string, hash: string) => {
+        if (postSoul && typeof postSoul === 'string' && hash && !hash.startsWith('_')) {
+          // Get the actual (verified) post data using the soul
+          this._loadPostPayload(hash, postSoul).then((postPayload) => {
+            // Only show posts from users we follow
+            if (postPayload && followingSet.has(postPayload.authorPub)) {
+              this.getPostWithAuthor(postPayload, callback);
+            }
+          });
+        }
+      });
+
+    cleanupFunctions.push(() => {
+      try {
+        this.gun.get(this.appName).get('timeline').get(today).map().off();
+      } catch (e) {
+        console.error('Error cleaning up following timeline listener:', e);
+      }
+    });
+
+    // Return cleanup function
+    return () => {
+      cleanupFunctions.forEach(cleanup => {
+        try {
+          cleanup();
+        } catch (e) {
+          console.error('Error in cleanup:', e);
+        }
+      });
+    };
+  }
+
+  /**
+   * Ancestors of a post, from the root of the conversation down to its parent
+   * Stops at the first parent that is missing, unreadable or from a
+   * blocked/muted author.
+   */
+  async getConversationAncestors(postId: string): Promise<PostWithAuthor[]> {
+    await this._loadModeration();
+    const ancestors: PostWithAuthor[] = [];
+    const seen = new Set<string>([postId]);
+    let current = await this._loadPostByHash(postId);
+
+    while (current?.replyTo && !seen.has(current.replyTo) && ancestors.length < MAX_CONVERSATION_DEPTH) {
+      seen.add(current.replyTo);
+      const parent = await this._loadPostByHash(current.replyTo);
+      if (!parent || this.isAuthorHidden(parent.authorPub)) {
+        break;
+      }
+      ancestors.unshift(await this._withAuthor(parent));
+      current = parent;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Replies to a post and, recursively, their replies (oldest first)
+   * Follows the replies/<hash> references written by publishPost. Replies
+   * of blocked/muted authors are dropped together with their subtree.
+   */
+  async getReplyTree(postId: string): Promise<ConversationNode[]> {
+    await this._loadModeration();
+    let remaining = MAX_CONVERSATION_POSTS;
+
+    const loadReplies = async (parentId: string, depth: number): Promise<ConversationNode[]> => {
+      if (depth > MAX_CONVERSATION_DEPTH || remaining <= 0) {
+        return [];
+      }
+      const entries = await this._readMapEntries(this.gun.get(this.appName).get('posts').get(parentId).get('replies'));
+      const hashes = Object.values(entries)
+        .filter((entry: any) => entry && typeof entry.hash === 'string')
+        .sort((a: any, b: any) => (a.timestamp || 0) - (b.timestamp || 0))
+        .map((entry: any) => entry.hash as string)
+        .filter((hash, index, all) => all.indexOf(hash) === index)
+        .slice(0, remaining);
+      remaining -= hashes.length;
+
+      const payloads = await Promise.all(hashes.map((hash) => this._loadPostByHash(hash)));
+      const replies = payloads.filter(
+        (payload): payload is PostPayload =>
+          !!payload && payload.replyTo === parentId && !this.isAuthorHidden(payload.authorPub)
+      );
+      return Promise.all(
+        replies.map(async (payload) => ({
+          post: await this._withAuthor(payload),
+          replies: await loadReplies(payload.id, depth + 1),
+        }))
+      );
+    };
+
+    return loadReplies(postId, 1);
+  }
+
+  /**
+   * View replies to a specific post (Thread)
+   */
+  viewReplies(postId: string, callback: (reply: PostWithAuthor) => void): () => void {
+    callback = this._moderated(callback, (reply) => reply.author);
+    this.gun
+      .get(this.appName)
+      .get('posts')
+      .get(postId)
+      .get('replies')
+      .map()
+      .on((replyEntry: any, key: string) => {
+        // Reply entries hold { hash, timestamp }; resolve the post through #posts
+        const replyHash = replyEntry && typeof replyEntry === 'object' && replyEntry.hash
+          ? replyEntry.hash
+          : null;
+        if (!key || key.startsWith('_') || !replyHash) {
+          return;
+        }
+        this._loadPostByHash(replyHash).then((reply) => {
+          if (reply) {
+            this.getPostWithAuthor(reply, callback);
+          }
+        });
+      });
+
+    // Return cleanup function
+    return () => {
+      try {
+        this.gun.get(this.appName).get('posts').get(postId).get('replies').map().off();
+      } catch (e) {
+        console.error('Error cleaning up replies listener:', e);
+      }
+    };
+  }
+
+  /**
+   * View the posts quoting a post (back-references written by publishPost)
+   */
+  viewQuotes(postId: string, callback: (quote: PostWithAuthor) => void): () => void {
+    callback = this._moderated(callback, (quote) => quote.author);
+    const quotesNode = this.gun.get(this.appName).get('posts').get(postId).get('quotes');
+    quotesNode.map().on((entry: any, key: string) => {
+      const quoteHash = entry && typeof entry === 'object' && entry.hash ? entry.hash : null;
+      if (!key || key.startsWith('_') || !quoteHash) {
+        return;
+      }
+      this._loadPostByHash(quoteHash).then((quote) => {
+        // Only trust entries whose post really quotes this one
+        if (quote && quote.quoteOf === postId) {
+          this.getPostWithAuthor(quote, callback);
+        }
+      });
+    });
+
+    return () => {
+      try {
+        quotesNode.map().off();
+      } catch (e) {
+        console.error('Error cleaning up quotes listener:', e);
+      }
+    };
+  }
+
+  /**
+   * Load a quoted post for embedding, with its latest revision applied
+   * Null when the post was deleted, cannot be read by the current user or
+   * its author is blocked or muted.
+   */
+  async getQuotedPost(postId: string): Promise<PostWithAuthor | null> {
+    const [payload] = await Promise.all([this._loadPostByHash(postId), this._loadModeration()]);
+    if (!payload || this.isAuthorHidden(payload.authorPub) || !(await this._isPostListed(payload))) {
+      return null;
+    }
+    const latest = await this.getLatestRevision(postId, payload.authorPub);
+    return this._withAuthor(
+      latest ? { ...payload, text: latest.text, mentions: latest.mentions } : payload
+    );
+  }
+
+  /**
+   * Vote in the poll of a post
+   * The vote is signed in the voter's space (~<pub>/pollVotes/<postId>)
+   * and announced on the post's interactions node. This client refuses to
+   * vote twice or after the close, but the voter can still rewrite their
+   * signed vote, and backdate it (see parsePollVote).
+   */
+  async votePoll(postId: string, choices: number[]): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    const post = await this._loadPostByHash(postId);
+    if (!post?.poll) {
+      return { success: false, error: 'Poll not found' };
+    }
+    if (isPollClosed(post.poll)) {
+      return { success: false, error: 'This poll is closed' };
+    }
+
+    const vote = JSON.stringify({ choices: [...new Set(choices)], timestamp: Date.now() });
+    if (!parsePollVote(vote, post.poll)) {
+      return { success: false, error: post.poll.multiple ? 'Choose at least one option' : 'Choose one option' };
+    }
+    if (await this._readPollVote(userPub, postId, post.poll)) {
+      return { success: false, error: 'You already voted in this poll' };
+    }
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this.user.get('pollVotes').get(postId).put(vote, (ack: any) =>
+          ack?.err ? reject(new Error(ack.err)) : resolve()
+        );
+      });
+      this.gun.get(this.appName).get('posts').get(postId).get('votes').get(userPub).put(true);
+      return { success: true };
+    } catch (error) {
+      console.error('Error voting in poll:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to vote',
+      };
+    }
+  }
+
+  /**
+   * View the votes of a poll as they arrive
+   * Voters are announced on the public interactions node; each vote is
+   * read from the voter's signed space and checked against the poll.
+   */
+  viewPollVotes(
+    postId: string,
+    poll: Poll,
+    callback: (vote: PollVote, voterPub: string) => void
+  ): () => void {
+    const votersNode = this.gun.get(this.appName).get('posts').get(postId).get('votes');
+    const seen = new Set<string>();
+    votersNode.map().on((announced: any, voterPub: string) => {
+      if (!announced || !voterPub || voterPub.startsWith('_') || seen.has(voterPub)) {
+        return;
+      }
+      seen.add(voterPub);
+      this._readPollVote(voterPub, postId, poll).then((vote) => {
+        if (vote) {
+          callback(vote, voterPub);
+        }
+      });
+    });
+
+    return () => {
+      try {
+        votersNode.map().off();
+      } catch (e) {
+        console.error('Error cleaning up poll votes listener:', e);
+      }
+    };
+  }
+
+  /**
+   * Read a voter's signed vote, null if missing or invalid for the poll
+   */
+  private _readPollVote(voterPub: string, postId: string, poll: Poll): Promise<PollVote | null> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.gun.user(voterPub).get('pollVotes').get(postId).once((value: any) => {
+        clearTimeout(timeoutId);
+        resolve(parsePollVote(value, poll));
+      });
+    });
+  }
+
+  /**
+   * Like a post
+   * Likes and reposts are stored once, on the post's interactions node
+   * (see src/utils/interactions.ts).
+   */
+  like(postId: string): Promise<{ success: boolean; error?: string }> {
+    return this._setLike(postId, true);
+  }
+
+  /**
+   * Remove a like
+   */
+  unlike(postId: string): Promise<{ success: boolean; error?: string }> {
+    return this._setLike(postId, false);
+  }
+
+  /**
+   * Repost a post
+   * The repost is also listed on the reposter's profile, at the time of the
+   * original post.
+   */
+  async repost(postId: string): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    const post = await this._loadPostByHash(postId);
+    if (!post) {
+      return { success: false, error: 'Post not found' };
+    }
+
+    try {
+      await this._putInteraction(postId, 'reposts', userPub, { timestamp: Date.now() });
+      notifyPostAuthor(this.gun, postId, 'repost', userPub);
+      const entry = { id: postId, timestamp: post.timestamp || Date.now(), reposted: true };
+      this.user.get('posts').get(postId).put(entry);
+      this.gun.get('users').get(userPub).get('posts').get(postId).put(entry);
+      return { success: true };
+    } catch (error) {
+      console.error('Error reposting:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to repost',
+      };
+    }
+  }
+
+  /**
+   * Remove a repost, from the post and from the reposter's profile
+   */
+  async unrepost(postId: string): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    try {
+      await this._putInteraction(postId, 'reposts', userPub, null);
+      retractPostNotification(this.gun, postId, 'repost', userPub);
+      this.user.get('posts').get(postId).put(null);
+      this.gun.get('users').get(userPub).get('posts').get(postId).put(null);
+      return { success: true };
+    } catch (error) {
+      console.error('Error removing repost:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove repost',
+      };
+    }
+  }
+
+  isLiked(post: Pick<Post, 'likes'>): boolean {
+    return hasInteracted(post.likes, this.getCurrentUserPub());
+  }
+
+  isReposted(post: Pick<Post, 'reposts'>): boolean {
+    return hasInteracted(post.reposts, this.getCurrentUserPub());
+  }
+
+  getLikeCount(post: Pick<Post, 'likes'>): number {
+    return countInteractions(post.likes);
+  }
+
+  getRepostCount(post: Pick<Post, 'reposts'>): number {
+    return countInteractions(post.reposts);
+  }
+
+  /**
+   * Merge the legacy interactions/posts/<id> copies of likes and reposts
+   * into the canonical nodes, once
+   * Entries missing from the canonical node are copied; entries removed
+   * there (unlike, unrepost) are not restored. The legacy copy is cleared
+   * and a marker under <app>/migrations stops other clients from running
+   * the migration again.
+   * The marker is only a hint: it lives on a public node and a read that
+   * times out counts as "not done". Running again is harmless, as the
+   * migration is idempotent, and cheap, as migrated posts are cleared from
+   * interactions/posts and skipped. Entries whose canonical value cannot be
+   * read in time keep their legacy copy, and the marker is not written, so
+   * a later run finishes them.
+   */
+  async migrateLegacyInteractions(): Promise<{ migrated: number }> {
+    const markerNode = this.gun.get(this.appName).get('migrations').get('interactions');
+    const done = await new Promise<boolean>((resolve) => {
+      const timeoutId = setTimeout(() => resolve(false), READ_TIMEOUT);
+      markerNode.once((value: any) => {
+        clearTimeout(timeoutId);
+        resolve(typeof value === 'number');
+      });
+    });
+    if (done) {
+      return { migrated: 0 };
+    }
+
+    let migrated = 0;
+    let skipped = false;
+    const legacyPosts = await this._readMapEntries(this.gun.get('interactions').get('posts'));
+    for (const postId of Object.keys(legacyPosts)) {
+      if (!legacyPosts[postId]) {
+        continue;
+      }
+      let postSkipped = false;
+      for (const kind of ['likes', 'reposts'] as const) {
+        const legacyNode = this.gun.get('interactions').get('posts').get(postId).get(kind);
+        const canonicalNode = this.gun.get(this.appName).get('posts').get(postId).get(kind);
+        const legacy = await this._readMapEntries(legacyNode);
+        for (const pub of Object.keys(legacy)) {
+          if (!isInteraction(legacy[pub])) {
+            continue;
+          }
+          // One read per entry: a map read may settle before a removed
+          // (null) canonical entry arrives, and copying then would undo the
+          // unlike or unrepost. Entries that cannot be read wait for a later run.
+          const canonical = await this._readValue(canonicalNode.get(pub));
+          if (!canonical) {
+            postSkipped = true;
+            continue;
+          }
+          if (canonical.value === undefined) {
+            const timestamp = typeof legacy[pub].timestamp === 'number' ? legacy[pub].timestamp : Date.now();
+            await this._putInteraction(postId, kind, pub, kind === 'likes' ? true : { timestamp });
+            migrated++;
+          }
+          legacyNode.get(pub).put(null);
+        }
+      }
+      if (postSkipped) {
+        skipped = true;
+      } else {
+        this.gun.get('interactions').get('posts').get(postId).put(null);
+      }
+    }
+
+    if (!skipped) {
+      markerNode.put(Date.now());
+    }
+    return { migrated };
+  }
+
+  private async _setLike(postId: string, liked: boolean): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    try {
+      await this._putInteraction(postId, 'likes', userPub, liked ? true : null);
+      if (liked) {
+        notifyPostAuthor(this.gun, postId, 'like', userPub);
+      } else {
+        retractPostNotification(this.gun, postId, 'like', userPub);
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating like:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update like',
+      };
+    }
+  }
+
+  private _putInteraction(
+    postId: string,
+    kind: 'likes' | 'reposts',
+    userPub: string,
+    value: true | { timestamp: number } | null
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.gun
+        .get(this.appName)
+        .get('posts')
+        .get(postId)
+        .get(kind)
+        .get(userPub)
+        .put(value, (ack: any) => (ack?.err ? reject(new Error(ack.err)) : resolve()));
+    });
+  }
+
+  /**
+   * Remove the likes, reposts and reactions of a deleted post (legacy
+   * copies included) and the reposts listed on the reposters' profiles
+   */
+  private async _clearInteractions(postId: string): Promise<void> {
+    const postNode = this.gun.get(this.appName).get('posts').get(postId);
+    const legacyNode = this.gun.get('interactions').get('posts').get(postId);
+    const nodes = [
+      postNode.get('likes'),
+      postNode.get('reactions'),
+      legacyNode.get('likes'),
+      postNode.get('reposts'),
+      legacyNode.get('reposts'),
+    ];
+    const entries = await Promise.all(nodes.map((node) => this._readMapEntries(node)));
+    nodes.forEach((node, index) => {
+      Object.keys(entries[index]).forEach((pub) => node.get(pub).put(null));
+    });
+    [...Object.keys(entries[3]), ...Object.keys(entries[4])].forEach((pub) => {
+      this.gun.get('users').get(pub).get('posts').get(postId).put(null);
+    });
+  }
+
+  /**
+   * Add an emoji reaction to a post
+   * The ❤️ reaction is a like (see like).
+   */
+  react(postId: string, emoji: string): Promise<{ success: boolean; error?: string }> {
+    return this._updateReaction(postId, emoji, true);
+  }
+
+  /**
+   * Remove an emoji reaction from a post
+   */
+  unreact(postId: string, emoji: string): Promise<{ success: boolean; error?: string }> {
+    return this._updateReaction(postId, emoji, false);
+  }
+
+  /**
+   * View who liked or reposted a post
+   * The callback receives every current entry (pub -> true) on each change.
+   */
+  viewInteractions(
+    postId: string,
+    kind: 'likes' | 'reposts',
+    callback: (entries: Record<string, boolean>) => void
+  ): () => void {
+    const node = this.gun.get(this.appName).get('posts').get(postId).get(kind);
+    const entries: Record<string, boolean> = {};
+
+    node.map().on((value: any, pub: string) => {
+      if (!pub || pub.startsWith('_')) {
+        return;
+      }
+      if (isInteraction(value)) {
+        entries[pub] = true;
+      } else {
+        delete entries[pub];
+      }
+      callback({ ...entries });
+    });
+
+    return () => {
+      try {
+        node.map().off();
+      } catch (e) {
+        console.error(`Error cleaning up ${kind} listener:`, e);
+      }
+    };
+  }
+
+  /**
+   * View the reactions to a post, aggregated per emoji
+   * The callback receives the whole tally again on every change; likes are
+   * counted as the ❤️ reaction.
+   */
+  viewReactions(postId: string, callback: (tally: ReactionTally) => void): () => void {
+    const postNode = this.gun.get(this.appName).get('posts').get(postId);
+    const reactionsNode = postNode.get('reactions');
+    const likesNode = postNode.get('likes');
+    const reactions: Record<string, string[]> = {};
+    const likes: Record<string, boolean> = {};
+    const emit = () => callback(tallyReactions(reactions, likes));
+
+    reactionsNode.map().on((value: any, reactorPub: string) => {
+      if (!reactorPub || reactorPub.startsWith('_')) {
+        return;
+      }
+      reactions[reactorPub] = parseReactions(value);
+      emit();
+    });
+    likesNode.map().on((value: any, likerPub: string) => {
+      if (!likerPub || likerPub.startsWith('_')) {
+        return;
+      }
+      likes[likerPub] = isInteraction(value);
+      emit();
+    });
+
+    return () => {
+      try {
+        reactionsNode.map().off();
+        likesNode.map().off();
+      } catch (e) {
+        console.error('Error cleaning up reactions listener:', e);
+      }
+    };
+  }
+
+  private async _updateReaction(
+    postId: string,
+    emoji: string,
+    add: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+    if (!isReactionEmoji(emoji)) {
+      return { success: false, error: 'Unknown reaction' };
+    }
+
+    if (emoji === LIKE_REACTION) {
+      return add ? this.like(postId) : this.unlike(postId);
+    }
+
+    const reactionNode = this.gun.get(this.appName).get('posts').get(postId).get('reactions').get(userPub);
+    try {
+      // Writing after a timed out read would erase the user's other reactions
+      const read = await this._readValue(reactionNode);
+      if (!read) {
+        return { success: false, error: 'Reactions could not be read, try again' };
+      }
+      const current = parseReactions(read.value);
+      const next = REACTION_EMOJIS.filter((e) => (e === emoji ? add : current.includes(e)));
+      await new Promise<void>((resolve, reject) => {
+        reactionNode.put(next.length > 0 ? JSON.stringify(next) : null, (ack: any) =>
+          ack?.err ? reject(new Error(ack.err)) : resolve()
+        );
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update reaction',
+      };
+    }
+  }
+
+  /**
+   * Users who liked a post, most recent first
+   * Likes are stored as plain flags, so their time is the write time
+   * recorded by GunDB for each entry.
+   */
+  async getPostLikes(postId: string): Promise<PostInteraction[]> {
+    const likesNode = this.gun.get(this.appName).get('posts').get(postId).get('likes');
+    const [entries, writeTimes] = await Promise.all([
+      this._readMapEntries(likesNode),
+      this._readWriteTimes(likesNode),
+    ]);
+    const likes = Object.keys(entries)
+      .filter((pub) => entries[pub] === true)
+      .map((pub) => ({ pub, timestamp: writeTimes[pub] || null }));
+    return this._resolveInteractions(likes);
+  }
+
+  /**
+   * Users who reposted a post, most recent first
+   */
+  async getPostReposts(postId: string): Promise<PostInteraction[]> {
+    const entries = await this._readMapEntries(this.gun.get(this.appName).get('posts').get(postId).get('reposts'));
+    const reposts = Object.keys(entries)
+      .filter((pub) => entries[pub] && typeof entries[pub] === 'object')
+      .map((pub) => ({
+        pub,
+        timestamp: typeof entries[pub].timestamp === 'number' ? entries[pub].timestamp : null,
+      }));
+    return this._resolveInteractions(reposts);
+  }
+
+  /**
+   * Drop blocked/muted users, load the profiles and sort by time
+   */
+  private async _resolveInteractions(
+    interactions: Array<{ pub: string; timestamp: number | null }>
+  ): Promise<PostInteraction[]> {
+    await this._loadModeration();
+    const visible = interactions.filter((interaction) => !this.isAuthorHidden(interaction.pub));
+    // A profile that cannot be read in time is shown as anonymous
+    const resolved = await Promise.all(
+      visible.map(
+        (interaction) =>
+          new Promise<PostInteraction>((resolve) => {
+            const timeoutId = setTimeout(
+              () => resolve({ ...interaction, profile: { displayName: 'Anonimo' } }),
+              READ_TIMEOUT
+            );
+            this.getUserProfile(interaction.pub, (profile) => {
+              clearTimeout(timeoutId);
+              resolve({ ...interaction, profile });
+            });
+          })
+      )
+    );
+    return resolved.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+  }
+
+  /**
+   * Write time of each field of a node (GunDB state), by key
+   */
+  private _readWriteTimes(node: any): Promise<Record<string, number>> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve({}), READ_TIMEOUT);
+      node.once((data: any) => {
+        clearTimeout(timeoutId);
+        resolve({ ...(data?._?.['>'] || {}) });
+      });
+    });
+  }
+
+  /**
+   * Get posts by hashtag
+   * Now uses bidirectional references (GUN Design Pattern) via getTagPosts
+   */
+  viewHashtag(hashtag: string, callback: (post: PostWithAuthor) => void): () => void {
+    // Use the bidirectional getTagPosts method for better graph navigation
+    return this.getTagPosts(hashtag, callback);
+  }
+
+  /**
+   * Full-text search over posts, profiles and hashtags
+   * Candidates come from the shared tokens index (search/posts/<token>,
+   * search/users/<token>) and from what this client has already loaded.
+   * Shared entries are only hints: every candidate is loaded and verified,
+   * then ranked by the local index against its actual text.
+   */
+  async search(query: string, limit: number = 20): Promise<SearchResults> {
+    const tokens = uniqueTokens(query);
+    if (tokens.length === 0) {
+      return { posts: [], users: [], tags: [] };
+    }
+    await this._loadModeration();
+
+    const searchNode = this.gun.get(this.appName).get('search');
+    const [postHashes, userPubs] = await Promise.all([
+      this._readSearchTokens(searchNode.get('posts'), tokens),
+      this._readSearchTokens(searchNode.get('users'), tokens),
+    ]);
+
+    // Loading a candidate adds it to the local index
+    await Promise.all([
+      ...postHashes.map(async (hash) => {
+        const payload = await this._loadPostByHash(hash);
+        if (!payload) {
+          return;
+        }
+        await this._withAuthor(payload);
+        // Edited posts are matched on their current text
+        const latest = await this.getLatestRevision(hash, payload.authorPub);
+        if (latest) {
+          this.revisedTexts[hash] = latest.text;
+          this._addToSearchIndex({ id: hash, content: latest.text });
+        }
+      }),
+      ...userPubs.map((pub) => new Promise<UserProfile>((resolve) => this.getUserProfile(pub, resolve))),
+      this._loadMatchingTags(query),
+    ]);
+
+    const posts: PostWithAuthor[] = [];
+    for (const hit of searchIndex.search('post', query, limit * 2)) {
+      const payload = await this._loadPostByHash(hit.id);
+      if (payload && !this.isAuthorHidden(payload.authorPub) && (await this._isPostListed(payload))) {
+        posts.push(await this._withAuthor(payload));
+      }
+      if (posts.length >= limit) {
+        break;
+      }
+    }
+
+    const users = searchIndex
+      .search('user', query, limit)
+      .filter((hit) => !this.isAuthorHidden(hit.id) && this.profilesCache[hit.id])
+      .map((hit) => ({ pub: hit.id, profile: this.profilesCache[hit.id], score: hit.score }));
+
+    const tags = searchIndex.search('tag', query, limit).map((hit) => ({ name: hit.id, score: hit.score }));
+
+    return { posts, users, tags };
+  }
+
+  /**
+   * Add a loaded post (and its hashtags) to the local search index
+   */
+  private _addToSearchIndex(post: Pick<Post, 'id' | 'content'>): void {
+    if (!post.id || !post.content) {
+      return;
+    }
+    searchIndex.add('post', post.id, post.content);
+    this._extractHashtags(post.content).forEach((tag) => searchIndex.add('tag', tag, tag));
+  }
+
+  /**
+   * Write the tokens of a post to the shared index
+   * Entries are plain timestamps so a single once() on the token node
+   * returns them without resolving child nodes.
+   */
+  private _indexSearchTokens(text: string, postHash: string, timestamp: number): void {
+    const postsIndex = this.gun.get(this.appName).get('search').get('posts');
+    uniqueTokens(text).forEach((token) => {
+      postsIndex.get(token).get(postHash).put(timestamp);
+    });
+  }
+
+  /**
+   * Remove a post from the shared index entries of some tokens
+   */
+  private _unindexSearchTokens(tokens: string[], postHash: string): void {
+    const postsIndex = this.gun.get(this.appName).get('search').get('posts');
+    tokens.forEach((token) => {
+      postsIndex.get(token).get(postHash).put(null);
+    });
+  }
+
+  /**
+   * Write the tokens of a user's displayName and bio to the shared index
+   * Stale tokens left by older profiles are harmless: search re-checks
+   * candidates against the current profile.
+   */
+  private _indexProfileSearchTokens(userPub: string): void {
+    this.getUserProfile(userPub, (profile) => {
+      const usersIndex = this.gun.get(this.appName).get('search').get('users');
+      uniqueTokens([profile.displayName, profile.bio].filter(Boolean).join(' ')).forEach((token) => {
+        usersIndex.get(token).get(userPub).put(true);
+      });
+    });
+  }
+
+  /**
+   * Read the shared index entries matching every token, newest posts first
+   */
+  private async _readSearchTokens(indexNode: any, tokens: string[]): Promise<string[]> {
+    const entries = await Promise.all(
+      tokens.map(
+        (token) =>
+          new Promise<Record<string, any>>((resolve) => {
+            const timeoutId = setTimeout(() => resolve({}), READ_TIMEOUT);
+            indexNode.get(token).once((data: any) => {
+              clearTimeout(timeoutId);
+              resolve(data && typeof data === 'object' ? data : {});
+            });
+          })
+      )
+    );
+
+    const [first, ...rest] = entries;
+    const timestampOf = (value: any) => (typeof value === 'number' ? value : 0);
+    return Object.keys(first)
+      .filter((key) => !key.startsWith('_') && first[key] && rest.every((entry) => entry[key]))
+      .sort((a, b) => timestampOf(first[b]) - timestampOf(first[a]))
+      .slice(0, MAX_SEARCH_CANDIDATES);
+  }
+
+  /**
+   * Add the hashtags named by the query words to the local index
+   */
+  private async _loadMatchingTags(query: string): Promise<void> {
+    const words = [...new Set(query.toLowerCase().match(/\w+/g) || [])];
+    await Promise.all(
+      words.map(
+        (word) =>
+          new Promise<void>((resolve) => {
+            const timeoutId = setTimeout(resolve, READ_TIMEOUT);
+            this.gun.get(this.appName).get('hashtags').get(word).once((tag: any) => {
+              clearTimeout(timeoutId);
+              if (tag && typeof tag === 'object' && tag.name) {
+                searchIndex.add('tag', tag.name, tag.name);
+              }
+              resolve();
+            });
+          })
+      )
+    );
+  }
+
+  /**
+   * Whether a post is still listed by its author (deletePost removes the
+   * entry, while the content-addressed data stays readable)
+   */
+  private _isPostListed(payload: PostPayload): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve(false), READ_TIMEOUT);
+      this.gun.get('users').get(payload.authorPub).get('posts').get(payload.id).once((entry: any) => {
+        clearTimeout(timeoutId);
+        resolve(!!entry);
+      });
+    });
+  }
+
+  /**
+   * Trending hashtags, ranked by acceleration in a sliding window
+   * Aggregates the hashtags/<tag>/posts entries written by _indexHashtags
+   * (see rankTrendingTags).
+   */
+  async getTrendingHashtags(period: TrendingWindow = '24h', limit: number = 10): Promise<TrendingTag[]> {
+    const activity = await this._loadHashtagActivity();
+    return rankTrendingTags(activity, period).slice(0, limit);
+  }
+
+  /**
+   * Read the post timestamps of every hashtag, back to two of the largest
+   * windows (the current one and the one it is compared with)
+   */
+  private async _loadHashtagActivity(): Promise<Record<string, number[]>> {
+    if (this.hashtagActivity && Date.now() - this.hashtagActivity.loadedAt < TRENDING_CACHE_MS) {
+      return this.hashtagActivity.activity;
+    }
+
+    const hashtagsNode = this.gun.get(this.appName).get('hashtags');
+    const tags = await new Promise<string[]>((resolve) => {
+      const timeoutId = setTimeout(() => resolve([]), READ_TIMEOUT);
+      hashtagsNode.once((data: any) => {
+        clearTimeout(timeoutId);
+        resolve(data && typeof data === 'object' ? Object.keys(data).filter((key) => !key.startsWith('_')) : []);
+      });
+    });
+
+    const since = Date.now() - 2 * TRENDING_WINDOWS['7d'];
+    const activity: Record<string, number[]> = {};
+    await Promise.all(
+      tags.slice(0, MAX_TRENDING_TAGS_SCANNED).map(async (tag) => {
+        const entries = await this._readMapEntries(hashtagsNode.get(tag).get('posts'));
+        // Node references added by set() have no timestamp and are skipped
+        const timestamps = Object.values(entries)
+          .map((entry) => (entry && typeof entry === 'object' ? entry.timestamp : null))
+          .filter((time): time is number => typeof time === 'number' && time > since);
+        if (timestamps.length > 0) {
+          activity[tag] = timestamps;
+        }
+      })
+    );
+
+    this.hashtagActivity = { loadedAt: Date.now(), activity };
+    return activity;
+  }
+
+  /**
+   * Read a single value, null if the read timed out
+   * Lets read-modify-write callers tell a missing value (undefined) from
+   * one that could not be read.
+   */
+  private _readValue(node: any): Promise<{ value: any } | null> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      node.once((value: any) => {
+        clearTimeout(timeoutId);
+        resolve({ value });
+      });
+    });
+  }
+
+  /**
+   * Read the entries of a map node once
+   * Gun never signals the end of a map().once, so the read completes when
+   * no entry arrived for MAP_SETTLE_MS (or after READ_TIMEOUT).
+   */
+  private _readMapEntries(node: any): Promise<Record<string, any>> {
+    return new Promise((resolve) => {
+      const entries: Record<string, any> = {};
+      let settleId: ReturnType<typeof setTimeout>;
+      const finish = () => {
+        clearTimeout(settleId);
+        clearTimeout(timeoutId);
+        resolve(entries);
+      };
+      const timeoutId = setTimeout(finish, READ_TIMEOUT);
+      settleId = setTimeout(finish, MAP_SETTLE_MS);
+
+      node.map().once((value: any, key: string) => {
+        if (!key || key.startsWith('_')) {
+          return;
+        }
+        entries[key] = value;
+        clearTimeout(settleId);
+        settleId = setTimeout(finish, MAP_SETTLE_MS);
+      });
+    });
+  }
+
+  /**
+   * Suggest accounts to follow (see scoreSuggestions)
+   * Me, the accounts I already follow and blocked or muted accounts are
+   * never suggested.
+   */
+  async getFollowSuggestions(limit: number = 5): Promise<FollowSuggestion[]> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return [];
+    }
+    await this._loadModeration();
+
+    const [following, followers, myTags] = await Promise.all([
+      this._readRelation(userPub, 'following'),
+      this._readRelation(userPub, 'followers'),
+      this._getRecentHashtags(userPub),
+    ]);
+
+    const followingOf: Record<string, string[]> = {};
+    const tagAuthors: Record<string, string[]> = {};
+    await Promise.all([
+      ...following.slice(0, MAX_SUGGESTION_FRIENDS).map(async (friend) => {
+        followingOf[friend] = await this._readRelation(friend, 'following');
+      }),
+      ...myTags.map(async (tag) => {
+        tagAuthors[tag] = await this._getHashtagAuthors(tag);
+      }),
+    ]);
+
+    const exclude = new Set([userPub, ...following]);
+    return scoreSuggestions({ followingOf, followers, tagAuthors }, exclude)
+      .filter((suggestion) => !this.isAuthorHidden(suggestion.pub))
+      .slice(0, limit);
+  }
+
+  /**
+   * Read the pubs listed in users/<pub>/following or followers
+   */
+  private _readRelation(userPub: string, relation: 'following' | 'followers'): Promise<string[]> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve([]), READ_TIMEOUT);
+      this.gun.get('users').get(userPub).get(relation).once((data: any) => {
+        clearTimeout(timeoutId);
+        if (!data || typeof data !== 'object') {
+          resolve([]);
+          return;
+        }
+        // Unfollowed entries are nulled out
+        resolve(Object.keys(data).filter((key) => !key.startsWith('_') && data[key]));
+      });
+    });
+  }
+
+  /**
+   * Hashtags used in a user's most recent posts, most used first
+   */
+  private async _getRecentHashtags(userPub: string): Promise<string[]> {
+    const entries = await this._readMapEntries(this.gun.get('users').get(userPub).get('posts'));
+    const recentHashes = Object.values(entries)
+      .filter((entry): entry is { hash: string; timestamp: number } => !!entry && typeof entry === 'object' && !!entry.hash)
+      .sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))
+      .slice(0, MAX_SUGGESTION_OWN_POSTS)
+      .map((entry) => entry.hash);
+
+    const payloads = await Promise.all(recentHashes.map((hash) => this._loadPostByHash(hash)));
+    const counts = new Map<string, number>();
+    payloads.forEach((payload) => {
+      if (payload) {
+        this._extractHashtags(payload.text).forEach((tag) => counts.set(tag, (counts.get(tag) || 0) + 1));
+      }
+    });
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_SUGGESTION_TAGS)
+      .map(([tag]) => tag);
+  }
+
+  /**
+   * Authors of the most recent posts in a hashtag
+   */
+  private async _getHashtagAuthors(tag: string): Promise<string[]> {
+    const entries = await this._readMapEntries(
+      this.gun.get(this.appName).get('hashtags').get(tag).get('posts')
+    );
+    const recentHashes = Object.values(entries)
+      .filter((entry): entry is { hash: string; timestamp: number } => !!entry && typeof entry === 'object' && !!entry.hash)
+      .sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))
+      .slice(0, MAX_SUGGESTION_TAG_POSTS)
+      .map((entry) => entry.hash);
+
+    const payloads = await Promise.all(recentHashes.map((hash) => this._loadPostByHash(hash)));
+    return [...new Set(payloads.filter((payload): payload is PostPayload => !!payload).map((p) => p.authorPub))];
+  }
+
+  /**
+   * View the notifications inbox of the current user
+   * The callback receives null when a notification is retracted.
+   */
+  viewNotifications(callback: (notification: Notification | null, id: string) => void): () => void {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return () => {};
+    }
+
+    const notificationsNode = this.gun.get('users').get(userPub).get('notifications');
+    notificationsNode.map().on((data: any, id: string) => {
+      if (!id || id.startsWith('_')) {
+        return;
+      }
+      const notification = parseNotification(data, id);
+      this._loadModeration().then(() => {
+        // Notifications from blocked/muted accounts are reported as removed
+        callback(notification && !this.isAuthorHidden(notification.actorPub) ? notification : null, id);
+      });
+    });
+
+    return () => {
+      try {
+        notificationsNode.map().off();
+      } catch (e) {
+        console.error('Error cleaning up notifications listener:', e);
+      }
+    };
+  }
+
+  /**
+   * Read which notifications the current user has already seen
+   */
+  getNotificationReadState(): Promise<NotificationReadState> {
+    const state: NotificationReadState = { lastReadAt: 0, read: {} };
+    if (!this.isAuthenticated()) {
+      return Promise.resolve(state);
+    }
+
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve(state), READ_TIMEOUT);
+      const readNode = this.user.get('notificationState');
+      readNode.get('lastReadAt').once((lastReadAt: any) => {
+        state.lastReadAt = typeof lastReadAt === 'number' ? lastReadAt : 0;
+        readNode.get('read').once((read: any) => {
+          clearTimeout(timeoutId);
+          if (read && typeof read === 'object') {
+            Object.keys(read)
+              .filter((id) => !id.startsWith('_') && read[id] === true)
+              .forEach((id) => {
+                state.read[id] = true;
+              });
+          }
+          resolve(state);
+        });
+      });
+    });
+  }
+
+  /**
+   * Mark notifications as read
+   * Without ids, everything received so far is marked read.
+   */
+  async markNotificationsRead(ids?: string[]): Promise<void> {
+    if (!this.isAuthenticated()) {
+      throw new Error('Not authenticated');
+    }
+
+    const readNode = this.user.get('notificationState');
+    if (!ids) {
+      readNode.get('lastReadAt').put(Date.now());
+      return;
+    }
+    ids.forEach((id) => readNode.get('read').get(id).put(true));
+  }
+
+  /**
+   * Block an account: hides its posts, replies, mentions and notifications
+   * (following relationships are removed by the useFollow hook)
+   */
+  async block(userPub: string): Promise<{ success: boolean; error?: string }> {
+    // A blocked follower cannot read the followers-only posts to come
+    try {
+      await this._rotateFollowersKey(userPub);
+    } catch (error) {
+      console.error('Error revoking followers key:', error);
+      return { success: false, error: 'Failed to revoke the followers key of this account' };
+    }
+    return this._updateModeration((list) => {
+      list.blocked[userPub] = { since: Date.now() };
+      delete list.muted[userPub];
+    });
+  }
+
+  async unblock(userPub: string): Promise<{ success: boolean; error?: string }> {
+    return this._updateModeration((list) => {
+      delete list.blocked[userPub];
+    });
+  }
+
+  /**
+   * Mute an account, optionally for a limited time (ms)
+   */
+  async mute(userPub: string, durationMs?: number | null): Promise<{ success: boolean; error?: string }> {
+    return this._updateModeration((list) => {
+      const since = Date.now();
+      list.muted[userPub] = { since, until: durationMs ? since + durationMs : null };
+    });
+  }
+
+  async unmute(userPub: string): Promise<{ success: boolean; error?: string }> {
+    return this._updateModeration((list) => {
+      delete list.muted[userPub];
+    });
+  }
+
+  /**
+   * Get the current user's block and mute lists (expired mutes excluded)
+   */
+  async getModerationList(): Promise<ModerationList> {
+    await this._loadModeration();
+    return this._activeModeration();
+  }
+
+  /**
+   * Subscribe to changes of the block and mute lists
+   */
+  onModerationChange(callback: (list: ModerationList) => void): () => void {
+    this.moderationListeners.add(callback);
+    this._loadModeration().then(() => callback(this._activeModeration()));
+    return () => {
+      this.moderationListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Check whether an author is blocked or currently muted
+   * Uses the loaded list: feeds wait for it through _moderated.
+   */
+  isAuthorHidden(userPub: string): boolean {
+    if (!userPub) {
+      return false;
+    }
+    if (this.moderation.blocked[userPub]) {
+      return true;
+    }
+    const mute = this.moderation.muted[userPub];
+    return !!mute && (!mute.until || mute.until > Date.now());
+  }
+
+  /**
+   * Wrap a feed callback so items from blocked/muted authors are dropped
+   */
+  private _moderated<T>(callback: (item: T) => void, getAuthor: (item: T) => string): (item: T) => void {
+    return (item: T) => {
+      this._loadModeration().then(() => {
+        if (!this.isAuthorHidden(getAuthor(item))) {
+          callback(item);
+        }
+      });
+    };
+  }
+
+  /**
+   * Load the encrypted moderation list of the current user (once per user)
+   * and keep it in sync with later changes
+   */
+  private _loadModeration(): Promise<void> {
+    const userPub = this.getCurrentUserPub();
+    if (this.moderationReady && this.moderationPub === userPub) {
+      return this.moderationReady;
+    }
+
+    this.moderationPub = userPub;
+    this.moderation = { blocked: {}, muted: {} };
+    if (!userPub) {
+      this.moderationReady = Promise.resolve();
+      return this.moderationReady;
+    }
+
+    const listNode = this.user.get('moderation').get('list');
+    this.moderationReady = new Promise<void>((resolve) => {
+      const timeoutId = setTimeout(resolve, READ_TIMEOUT);
+      listNode.once(async (ct: any) => {
+        clearTimeout(timeoutId);
+        await this._applyModeration(ct, userPub);
+        resolve();
+      });
+    });
+
+    listNode.on((ct: any) => {
+      this._applyModeration(ct, userPub);
+    });
+
+    return this.moderationReady;
+  }
+
+  /**
+   * Decrypt a stored moderation list and notify subscribers
+   */
+  private async _applyModeration(ct: any, ownerPub: string): Promise<void> {
+    if (typeof ct !== 'string' || this.moderationPub !== ownerPub) {
+      return;
+    }
+    try {
+      const decrypted = await this.gun.SEA.decrypt(ct, this.user._.sea);
+      const list = typeof decrypted === 'string' ? JSON.parse(decrypted) : decrypted;
+      if (!list || typeof list !== 'object' || this.moderationPub !== ownerPub) {
+        return;
+      }
+      this.moderation = { blocked: list.blocked || {}, muted: list.muted || {} };
+      const active = this._activeModeration();
+      this.moderationListeners.forEach((listener) => listener(active));
+    } catch (e) {
+      console.error('Error decrypting moderation list:', e);
+    }
+  }
+
+  /**
+   * Apply a change to the moderation list and store it encrypted
+   */
+  private async _updateModeration(
+    change: (list: ModerationList) => void
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!this.isAuthenticated()) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    try {
+      await this._loadModeration();
+      const list = this._activeModeration();
+      change(list);
+
+      const SEA = this.gun.SEA;
+      const pair = this.user?._?.sea;
+      if (!SEA || !pair) {
+        return { success: false, error: 'SEA key pair not available' };
+      }
+      const ct = await SEA.encrypt(JSON.stringify(list), pair);
+      await new Promise<void>((resolve, reject) => {
+        this.user
+          .get('moderation')
+          .get('list')
+          .put(ct, (ack: any) => (ack?.err ? reject(new Error(ack.err)) : resolve()));
+      });
+
+      this.moderation = list;
+      this.moderationListeners.forEach((listener) => listener(this._activeModeration()));
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating moderation list:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update moderation list',
+      };
+    }
+  }
+
+  /**
+   * Copy of the moderation list without expired mutes
+   */
+  private _activeModeration(): ModerationList {
+    const now = Date.now();
+    const muted: Record<string, ModerationEntry> = {};
+    Object.entries(this.moderation.muted).forEach(([pub, entry]) => {
+      if (!entry.until || entry.until > now) {
+        muted[pub] = entry;
+      }
+    });
+    return { blocked: { ...this.moderation.blocked }, muted };
+  }
+
+  /**
+   * View the current user's content filters
+   * The callback receives null when a filter is removed.
+   */
+  viewContentFilters(callback: (filter: ContentFilter | null, id: string) => void): () => void {
+    if (!this.isAuthenticated()) {
+      return () => {};
+    }
+
+    const filtersNode = this.user.get('filters');
+    filtersNode.map().on((data: any, id: string) => {
+      if (id && !id.startsWith('_')) {
+        callback(parseContentFilter(data, id), id);
+      }
+    });
+
+    return () => {
+      try {
+        filtersNode.map().off();
+      } catch (e) {
+        console.error('Error cleaning up content filters listener:', e);
+      }
+    };
+  }
+
+  /**
+   * Create or update a content filter in the user's space
+   */
+  saveContentFilter(
+    filter: Omit<ContentFilter, 'id' | 'createdAt'> & { id?: string }
+  ): Promise<{ success: boolean; error?: string; id?: string }> {
+    return new Promise((resolve) => {
+      if (!this.isAuthenticated()) {
+        resolve({ success: false, error: 'Non sei loggato' });
+        return;
+      }
+
+      const createdAt = Date.now();
+      const id = filter.id || `${createdAt}_${Math.random().toString(36).slice(2, 8)}`;
+      this.user
+        .get('filters')
+        .get(id)
+        .put(
+          {
+            type: filter.type,
+            pattern: filter.pattern.trim(),
+            contexts: filter.contexts.join(','),
+            action: filter.action,
+            createdAt,
+          },
+          (ack: any) => resolve(ack?.err ? { success: false, error: String(ack.err) } : { success: true, id })
+        );
+    });
+  }
+
+  /**
+   * Delete a content filter
+   */
+  removeContentFilter(id: string): Promise<{ success: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.isAuthenticated()) {
+        resolve({ success: false, error: 'Non sei loggato' });
+        return;
+      }
+      this.user
+        .get('filters')
+        .get(id)
+        .put(null, (ack: any) => resolve(ack?.err ? { success: false, error: String(ack.err) } : { success: true }));
+    });
+  }
+
+  /**
+   * Autosaved composer draft of the current user
+   * Drafts are encrypted with the user's key pair in their own space
+   * (~<pub>/drafts/<key>), so they can be restored on any device.
+   * @param key - composer context, e.g. 'new' or 'reply:<postId>'
+   */
+  async getDraft(key: string): Promise<PostDraft | null> {
+    if (!this.isAuthenticated()) {
+      return null;
+    }
+
+    const ct = await new Promise<any>((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.user.get('drafts').get(key).once((value: any) => {
+        clearTimeout(timeoutId);
+        resolve(value);
+      });
+    });
+    if (typeof ct !== 'string') {
+      return null;
+    }
+
+    try {
+      const decrypted = await this.gun.SEA.decrypt(ct, this.user._.sea);
+      const draft = typeof decrypted === 'string' ? JSON.parse(decrypted) : decrypted;
+      if (!draft || typeof draft.text !== 'string') {
+        return null;
+      }
+      return {
+        text: draft.text,
+        visibility: parseVisibility(draft.visibility),
+        contentWarning: typeof draft.contentWarning === 'string' ? draft.contentWarning : null,
+        poll: draft.poll && Array.isArray(draft.poll.options) ? draft.poll : null,
+        thread: Array.isArray(draft.thread)
+          ? draft.thread.filter((part: unknown): part is string => typeof part === 'string')
+          : [],
+        updatedAt: typeof draft.updatedAt === 'number' ? draft.updatedAt : 0,
+      };
+    } catch (e) {
+      console.error('Error decrypting draft:', e);
+      return null;
+    }
+  }
+
+  /**
+   * Save (replace) a composer draft
+   */
+  async saveDraft(key: string, draft: Omit<PostDraft, 'updatedAt'>): Promise<{ success: boolean; error?: string }> {
+    if (!this.isAuthenticated()) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    try {
+      const SEA = this.gun.SEA;
+      const pair = this.user?._?.sea;
+      if (!SEA || !pair) {
+        return { success: false, error: 'SEA key pair not available' };
+      }
+      const ct = await SEA.encrypt(JSON.stringify({ ...draft, updatedAt: Date.now() }), pair);
+      await new Promise<void>((resolve, reject) => {
+        this.user
+          .get('drafts')
+          .get(key)
+          .put(ct, (ack: any) => (ack?.err ? reject(new Error(ack.err)) : resolve()));
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save draft',
+      };
+    }
+  }
+
+  /**
+   * Delete a composer draft (after publishing or discarding it)
+   */
+  deleteDraft(key: string): Promise<{ success: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.isAuthenticated()) {
+        resolve({ success: false, error: 'Non sei loggato' });
+        return;
+      }
+      this.user
+        .get('drafts')
+        .get(key)
+        .put(null, (ack: any) => resolve(ack?.err ? { success: false, error: String(ack.err) } : { success: true }));
+    });
+  }
+
+  /**
+   * View the current user's bookmarks (post hash -> time it was saved)
+   * The list is encrypted with the user's own key pair, so unlike likes
+   * nobody else can see what was saved.
+   */
+  viewBookmarks(callback: (bookmarks: Record<string, number>) => void): () => void {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return () => {};
+    }
+
+    const listNode = this.user.get('bookmarks').get('list');
+    listNode.on(async (ct: any) => {
+      const bookmarks = await this._openBookmarks(ct);
+      if (bookmarks && this.getCurrentUserPub() === userPub) {
+        callback(bookmarks);
+      }
+    });
+
+    return () => {
+      try {
+        listNode.off();
+      } catch (e) {
+        console.error('Error cleaning up bookmarks listener:', e);
+      }
+    };
+  }
+
+  /**
+   * View the bookmarked posts, resolved through #posts like getTagPosts
+   * The callback receives null when a post is removed from the bookmarks.
+   * Deleted posts and posts of blocked/muted authors are skipped.
+   */
+  viewBookmarkedPosts(
+    callback: (post: PostWithAuthor | null, postId: string, savedAt: number) => void
+  ): () => void {
+    const shown = new Set<string>();
+    return this.viewBookmarks(async (bookmarks) => {
+      shown.forEach((postId) => {
+        if (!bookmarks[postId]) {
+          shown.delete(postId);
+          callback(null, postId, 0);
+        }
+      });
+
+      await this._loadModeration();
+      Object.entries(bookmarks).forEach(async ([postId, savedAt]) => {
+        if (shown.has(postId)) {
+          return;
+        }
+        shown.add(postId);
+        const payload = await this._loadPostByHash(postId);
+        if (payload && !this.isAuthorHidden(payload.authorPub) && (await this._isPostListed(payload))) {
+          this.getPostWithAuthor(payload, (post) => {
+            if (shown.has(postId)) {
+              callback(post, postId, savedAt);
+            }
+          });
+        }
+      });
+    });
+  }
+
+  /**
+   * Save a post to the current user's bookmarks
+   */
+  async bookmark(postId: string): Promise<{ success: boolean; error?: string }> {
+    if (!(await this._loadPostByHash(postId))) {
+      return { success: false, error: 'Post not found' };
+    }
+    return this._updateBookmarks((bookmarks) => {
+      bookmarks[postId] = bookmarks[postId] || Date.now();
+    });
+  }
+
+  /**
+   * Remove a post from the current user's bookmarks
+   */
+  unbookmark(postId: string): Promise<{ success: boolean; error?: string }> {
+    return this._updateBookmarks((bookmarks) => {
+      delete bookmarks[postId];
+    });
+  }
+
+  /**
+   * Decrypt the stored bookmarks list, null if it cannot be read
+   */
+  private async _openBookmarks(ct: any): Promise<Record<string, number> | null> {
+    if (ct === undefined || ct === null) {
+      return {};
+    }
+    if (typeof ct !== 'string') {
+      return null;
+    }
+    try {
+      const decrypted = await this.gun.SEA.decrypt(ct, this.user._.sea);
+      const bookmarks = typeof decrypted === 'string' ? JSON.parse(decrypted) : decrypted;
+      if (!bookmarks || typeof bookmarks !== 'object') {
+        return null;
+      }
+      const valid: Record<string, number> = {};
+      Object.entries(bookmarks).forEach(([postId, savedAt]) => {
+        if (typeof savedAt === 'number') {
+          valid[postId] = savedAt;
+        }
+      });
+      return valid;
+    } catch (e) {
+      console.error('Error decrypting bookmarks:', e);
+      return null;
+    }
+  }
+
+  /**
+   * Apply a change to the bookmarks list and store it encrypted
+   */
+  private async _updateBookmarks(
+    change: (bookmarks: Record<string, number>) => void
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!this.isAuthenticated()) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    try {
+      const SEA = this.gun.SEA;
+      const pair = this.user?._?.sea;
+      if (!SEA || !pair) {
+        return { success: false, error: 'SEA key pair not available' };
+      }
+
+      const listNode = this.user.get('bookmarks').get('list');
+      // Writing after a timed out read would replace the whole list
+      const current = await this._readValue(listNode);
+      if (!current) {
+        return { success: false, error: 'Bookmarks could not be read, try again' };
+      }
+      const bookmarks = await this._openBookmarks(current.value);
+      if (!bookmarks) {
+        return { success: false, error: 'Bookmarks could not be decrypted' };
+      }
+      change(bookmarks);
+
+      const ct = await SEA.encrypt(JSON.stringify(bookmarks), pair);
+      await new Promise<void>((resolve, reject) => {
+        listNode.put(ct, (ack: any) => (ack?.err ? reject(new Error(ack.err)) : resolve()));
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating bookmarks:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update bookmarks',
+      };
+    }
+  }
+
+  /**
+   * View the ids of a user's pinned posts, most recently pinned first
+   * Stored as a JSON array in the user's signed graph (~<pub>/pinned) since
+   * GUN has no ordered lists. users/<pub>/pinned is only a public mirror:
+   * anyone can write there, so it is never read back.
+   */
+  viewPinnedPostIds(userPub: string, callback: (postIds: string[]) => void): () => void {
+    const pinnedNode = this.gun.user(userPub).get('pinned');
+    pinnedNode.on((value: any) => {
+      callback(parsePinnedPostIds(value));
+    });
+
+    return () => {
+      try {
+        pinnedNode.off();
+      } catch (e) {
+        console.error('Error cleaning up pinned posts listener:', e);
+      }
+    };
+  }
+
+  /**
+   * View a user's pinned posts in pin order
+   * The callback receives the whole list on every change. Posts of other
+   * authors, deleted posts and unreadable posts are dropped.
+   */
+  viewPinnedPosts(userPub: string, callback: (posts: PostWithAuthor[]) => void): () => void {
+    let version = 0;
+    return this.viewPinnedPostIds(userPub, async (postIds) => {
+      const current = ++version;
+      const payloads = await Promise.all(postIds.map((postId) => this._loadPostByHash(postId)));
+      const owned = payloads.filter(
+        (payload): payload is PostPayload => !!payload && payload.authorPub === userPub
+      );
+      const listed = await Promise.all(owned.map((payload) => this._isPostListed(payload)));
+      const posts = await Promise.all(
+        owned.filter((_, index) => listed[index]).map((payload) => this._withAuthor(payload))
+      );
+      if (current === version) {
+        callback(posts);
+      }
+    });
+  }
+
+  /**
+   * Pin one of the current user's posts to the top of their profile
+   */
+  async pinPost(postId: string): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    const post = await this._loadPostByHash(postId);
+    if (!post || post.authorPub !== userPub) {
+      return { success: false, error: 'You can only pin your own posts' };
+    }
+
+    const current = await this._readPinnedPostIds();
+    if (!current) {
+      return { success: false, error: 'Pinned posts could not be read, try again' };
+    }
+    const pinned = current.filter((id) => id !== postId);
+    if (pinned.length >= MAX_PINNED_POSTS) {
+      return { success: false, error: `You can pin up to ${MAX_PINNED_POSTS} posts` };
+    }
+    return this._writePinnedPostIds(userPub, [postId, ...pinned]);
+  }
+
+  /**
+   * Unpin one of the current user's posts
+   */
+  async unpinPost(postId: string): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    const pinned = await this._readPinnedPostIds();
+    if (!pinned) {
+      return { success: false, error: 'Pinned posts could not be read, try again' };
+    }
+    if (!pinned.includes(postId)) {
+      return { success: true };
+    }
+    return this._writePinnedPostIds(userPub, pinned.filter((id) => id !== postId));
+  }
+
+  /**
+   * The current user's signed pinned list, null if it could not be read
+   * (writing after a timed out read would replace the whole list)
+   */
+  private async _readPinnedPostIds(): Promise<string[] | null> {
+    const read = await this._readValue(this.user.get('pinned'));
+    return read ? parsePinnedPostIds(read.value) : null;
+  }
+
+  private _writePinnedPostIds(userPub: string, postIds: string[]): Promise<{ success: boolean; error?: string }> {
+    const value = JSON.stringify(postIds);
+    return new Promise((resolve) => {
+      this.user.get('pinned').put(value, (ack: any) => {
+        if (ack?.err) {
+          resolve({ success: false, error: String(ack.err) });
+          return;
+        }
+        this.gun.get('users').get(userPub).get('pinned').put(value);
+        resolve({ success: true });
+      });
+    });
+  }
+
+  /**
+   * Whether an account is locked (private)
+   * Read from the signed profile: the public users/<pub>/profile copy is
+   * only for display, since anyone can write there.
+   */
+  async isAccountLocked(userPub: string): Promise<boolean> {
+    return (await this._readAccountLocked(userPub)) === true;
+  }
+
+  /**
+   * The signed locked flag, null if the read timed out
+   */
+  private async _readAccountLocked(userPub: string): Promise<boolean | null> {
+    const read = await this._readValue(this.gun.user(userPub).get('profile').get('locked'));
+    return read ? read.value === true : null;
+  }
+
+  /**
+   * Lock or unlock the current account
+   * Locking grants the followers key to everyone already following, so
+   * existing followers keep reading new posts.
+   */
+  async setAccountLocked(locked: boolean): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    try {
+      if (locked) {
+        await this._grantFollowerKeyToFollowers(userPub);
+      }
+      await new Promise<void>((resolve, reject) => {
+        this.user.get('profile').get('locked').put(locked, (ack: any) =>
+          ack?.err ? reject(new Error(ack.err)) : resolve()
+        );
+      });
+      this.gun.get('users').get(userPub).get('profile').get('locked').put(locked);
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating account lock:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update account',
+      };
+    }
+  }
+
+  /**
+   * Ask to follow a locked account
+   * The request is signed in the requester's graph (~<me>/followRequests)
+   * and announced on the target's public node, where it may be forged:
+   * the owner only trusts requests backed by the signed entry.
+   */
+  async requestFollow(targetPub: string): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+    if (targetPub === userPub) {
+      return { success: false, error: 'Cannot follow yourself' };
+    }
+    if ((await this.getModerationList()).blocked[targetPub]) {
+      return { success: false, error: 'Unblock this user before following them' };
+    }
+
+    try {
+      const timestamp = Date.now();
+      await new Promise<void>((resolve, reject) => {
+        this.user.get('followRequests').get(targetPub).put({ timestamp }, (ack: any) =>
+          ack?.err ? reject(new Error(ack.err)) : resolve()
+        );
+      });
+      this.gun.get('users').get(targetPub).get('followRequests').get(userPub).put({ timestamp });
+      sendNotification(this.gun, targetPub, { type: 'followRequest', actorPub: userPub, timestamp });
+      return { success: true };
+    } catch (error) {
+      console.error('Error sending follow request:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send follow request',
+      };
+    }
+  }
+
+  /**
+   * Withdraw a pending follow request
+   */
+  async cancelFollowRequest(targetPub: string): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+    this.user.get('followRequests').get(targetPub).put(null);
+    this.gun.get('users').get(targetPub).get('followRequests').get(userPub).put(null);
+    retractNotification(this.gun, targetPub, 'followRequest', userPub);
+    return { success: true };
+  }
+
+  /**
+   * State of the current user's request to follow an account
+   * 'approved' means the owner granted the followers key.
+   */
+  async getFollowRequestStatus(targetPub: string): Promise<FollowRequestStatus> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return 'none';
+    }
+
+    const read = (node: any) =>
+      new Promise<any>((resolve) => {
+        const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+        node.once((data: any) => {
+          clearTimeout(timeoutId);
+          resolve(data);
+        });
+      });
+
+    const [grantedKey, request] = await Promise.all([
+      read(this.gun.user(targetPub).get('followerKeys').get(userPub)),
+      read(this.user.get('followRequests').get(targetPub)),
+    ]);
+    if (grantedKey) {
+      return 'approved';
+    }
+    return request && typeof request === 'object' && request.timestamp ? 'pending' : 'none';
+  }
+
+  /**
+   * View the follow requests received by the current user
+   * The callback receives null when a request is withdrawn or handled.
+   */
+  viewFollowRequests(callback: (request: FollowRequest | null, requesterPub: string) => void): () => void {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return () => {};
+    }
+
+    const requestsNode = this.gun.get('users').get(userPub).get('followRequests');
+    requestsNode.map().on(async (data: any, requesterPub: string) => {
+      if (!requesterPub || requesterPub.startsWith('_')) {
+        return;
+      }
+      if (!data || typeof data !== 'object') {
+        callback(null, requesterPub);
+        return;
+      }
+
+      await this._loadModeration();
+      const signed = await new Promise<any>((resolve) => {
+        const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+        this.gun.user(requesterPub).get('followRequests').get(userPub).once((entry: any) => {
+          clearTimeout(timeoutId);
+          resolve(entry);
+        });
+      });
+      if (!signed || typeof signed !== 'object' || !signed.timestamp || this.isAuthorHidden(requesterPub)) {
+        callback(null, requesterPub);
+        return;
+      }
+      callback({ requesterPub, timestamp: signed.timestamp }, requesterPub);
+    });
+
+    return () => {
+      try {
+        requestsNode.map().off();
+      } catch (e) {
+        console.error('Error cleaning up follow requests listener:', e);
+      }
+    };
+  }
+
+  /**
+   * Approve a follow request: grant the followers key and record the
+   * follow in both public relation nodes
+   */
+  async approveFollowRequest(requesterPub: string): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    try {
+      await this._grantFollowerKey(requesterPub);
+      const timestamp = Date.now();
+      this.gun.get('users').get(userPub).get('followers').get(requesterPub).put({ timestamp });
+      this.gun.get('users').get(requesterPub).get('following').get(userPub).put({ timestamp });
+      this.gun.get('users').get(userPub).get('followRequests').get(requesterPub).put(null);
+      retractNotification(this.gun, userPub, 'followRequest', requesterPub);
+      sendNotification(this.gun, requesterPub, { type: 'followAccept', actorPub: userPub, timestamp });
+      return { success: true };
+    } catch (error) {
+      console.error('Error approving follow request:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to approve follow request',
+      };
+    }
+  }
+
+  /**
+   * Remove a follower of the current user
+   * The follow is removed from both public relation nodes and the followers
+   * key is rotated, so the removed follower cannot read the posts to come.
+   */
+  async removeFollower(followerPub: string): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    try {
+      await this._rotateFollowersKey(followerPub);
+      this.gun.get('users').get(userPub).get('followers').get(followerPub).put(null);
+      this.gun.get('users').get(followerPub).get('following').get(userPub).put(null);
+      retractNotification(this.gun, userPub, 'follow', followerPub);
+      return { success: true };
+    } catch (error) {
+      console.error('Error removing follower:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove follower',
+      };
+    }
+  }
+
+  /**
+   * Reject a follow request
+   */
+  async rejectFollowRequest(requesterPub: string): Promise<{ success: boolean; error?: string }> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+    this.gun.get('users').get(userPub).get('followRequests').get(requesterPub).put(null);
+    retractNotification(this.gun, userPub, 'followRequest', requesterPub);
+    return { success: true };
+  }
+
+  /**
+   * Read the text and mentions of a raw post node, decrypting followers-only
+   * and direct posts; null if the current user cannot read it
+   */
+  async openPostContent(
+    postData: any
+  ): Promise<OpenedPostContent | null> {
+    if (!postData || typeof postData !== 'object' || !postData.text) {
+      return null;
+    }
+    const visibility = parseVisibility(postData.visibility);
+    if (!isSealedVisibility(visibility)) {
+      return {
+        text: postData.text,
+        mentions: parseMentions(postData.mentions),
+        visibility,
+        poll: parsePoll(postData.poll),
+        contentWarning: parseContentWarning(postData.contentWarning),
+      };
+    }
+
+    const key = await this._getContentKey(postData, postData.authorPub || '');
+    const text = key ? await this._open(key, postData.text) : null;
+    if (!key || text === null) {
+      return null;
+    }
+    const mentions = postData.mentions ? await this._open(key, postData.mentions) : null;
+    const poll = postData.poll ? await this._open(key, postData.poll) : null;
+    const contentWarning = postData.contentWarning ? await this._open(key, postData.contentWarning) : null;
+    return {
+      text,
+      mentions: parseMentions(mentions),
+      visibility,
+      poll: parsePoll(poll),
+      contentWarning: parseContentWarning(contentWarning),
+    };
+  }
+
+  /**
+   * Encrypt text with a symmetric key
+   */
+  private async _seal(key: string, text: string): Promise<string> {
+    return this.gun.SEA.encrypt(text, key);
+  }
+
+  /**
+   * Decrypt text sealed with _seal, null if the key does not match
+   */
+  private async _open(key: string, ct: any): Promise<string | null> {
+    if (!ct) {
+      return null;
+    }
+    try {
+      const text = await this.gun.SEA.decrypt(ct, key);
+      // SEA parses decrypted JSON (e.g. serialized mentions)
+      if (text === undefined || text === null) {
+        return null;
+      }
+      return typeof text === 'string' ? text : JSON.stringify(text);
+    } catch (e) {
+      console.error('Error decrypting post content:', e);
+      return null;
+    }
+  }
+
+  /**
+   * Key of an encrypted post (or revision) as available to the current
+   * user: the author's followers key, or the per-post key of a direct post
+   * wrapped for them; null if they cannot read it
+   */
+  private async _getContentKey(
+    data: { visibility?: unknown; recipients?: string | null; keyId?: string | null },
+    authorPub: string
+  ): Promise<string | null> {
+    try {
+      if (data.visibility === 'followers') {
+        return await this._getFollowersKey(authorPub, data.keyId);
+      }
+      if (data.visibility === 'direct') {
+        return await this._openDirectKey(authorPub, data.recipients);
+      }
+    } catch (e) {
+      console.error('Error reading post key:', e);
+    }
+    return null;
+  }
+
+  /**
+   * Create the key of a direct post, wrapped for the author (with their
+   * key pair) and for each recipient (with the secret shared with them)
+   */
+  private async _createDirectKey(recipientPubs: string[]): Promise<{ key: string; recipients: string }> {
+    const userPub = this.getCurrentUserPub();
+    const SEA = this.gun.SEA;
+    const pair = this.user?._?.sea;
+    if (!userPub || !SEA || !pair) {
+      throw new Error('SEA key pair not available - direct posts require a logged in user');
+    }
+
+    const key = generateSymmetricKey();
+    const wrapped: Record<string, string> = { [userPub]: await SEA.encrypt(key, pair) };
+    for (const pub of recipientPubs) {
+      wrapped[pub] = await SEA.encrypt(key, await this._getDmSecret(pub));
+    }
+    return { key, recipients: JSON.stringify(wrapped) };
+  }
+
+  /**
+   * Unwrap the current user's copy of a direct post key
+   */
+  private async _openDirectKey(authorPub: string, recipients: string | null | undefined): Promise<string | null> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub || typeof recipients !== 'string') {
+      return null;
+    }
+
+    let wrapped: Record<string, string>;
+    try {
+      wrapped = JSON.parse(recipients);
+    } catch {
+      return null;
+    }
+    if (!wrapped[userPub]) {
+      return null;
+    }
+
+    const secret = authorPub === userPub ? this.user._.sea : await this._getDmSecret(authorPub);
+    const key = await this.gun.SEA.decrypt(wrapped[userPub], secret);
+    return typeof key === 'string' && key ? key : null;
+  }
+
+  /**
+   * The current user's followers keys, created on first use
+   * Stored encrypted for the owner at ~<me>/followersKey. The key is
+   * replaced when a follower is removed (see _rotateFollowersKey); older
+   * keys are kept to read older posts.
+   */
+  private async _getOwnFollowersKeyRing(): Promise<FollowersKeyRing> {
+    const userPub = this.getCurrentUserPub();
+    const SEA = this.gun.SEA;
+    const pair = this.user?._?.sea;
+    if (!userPub || !SEA || !pair) {
+      throw new Error('SEA key pair not available - private posts require a logged in user');
+    }
+
+    if (this.ownFollowersKeyRings[userPub]) {
+      return this.ownFollowersKeyRings[userPub];
+    }
+
+    const stored = await new Promise<any>((resolve, reject) => {
+      const timeoutId = setTimeout(
+        () => reject(new Error('Followers key not available yet, try again')),
+        READ_TIMEOUT
+      );
+      this.user.get('followersKey').once((ct: any) => {
+        clearTimeout(timeoutId);
+        resolve(ct);
+      });
+    });
+
+    const opened = stored ? await SEA.decrypt(stored, pair) : null;
+    let ring: FollowersKeyRing;
+    if (typeof opened === 'string' && opened) {
+      // A single key, from before keys were rotated
+      ring = { current: INITIAL_FOLLOWERS_KEY_ID, keys: { [INITIAL_FOLLOWERS_KEY_ID]: opened } };
+    } else if (opened && typeof opened === 'object' && opened.keys?.[opened.current]) {
+      ring = { current: opened.current, keys: parseFollowersKeys(opened.keys) };
+    } else {
+      // Never overwrite a key that exists but could not be read: the
+      // timeout above rejects instead of falling through to here
+      const keyId = newFollowersKeyId();
+      ring = { current: keyId, keys: { [keyId]: generateSymmetricKey() } };
+      await this._storeOwnFollowersKeyRing(ring);
+    }
+
+    this.ownFollowersKeyRings[userPub] = ring;
+    return ring;
+  }
+
+  private async _storeOwnFollowersKeyRing(ring: FollowersKeyRing): Promise<void> {
+    const ct = await this.gun.SEA.encrypt(ring, this.user._.sea);
+    await new Promise<void>((resolve, reject) => {
+      this.user.get('followersKey').put(ct, (ack: any) => (ack?.err ? reject(new Error(ack.err)) : resolve()));
+    });
+  }
+
+  /**
+   * The current user's newest followers key, used to seal new posts
    */
-  private _indexHashtags(text: string, postData: PostPayload, postNode: any): void {
-    const hashtags = text.match(/#\w+/g);
-    if (hashtags) {
-      hashtags.forEach((tag) => {
-        const cleanTag = tag.replace('#', '').toLowerCase();
-        const tagNode = this.gun.get(this.appName).get('hashtags').get(cleanTag);
-        
-        // Create tag object if it doesn't exist
-        const tagData = {
-          name: cleanTag,
-          slug: cleanTag,
-        };
-        tagNode.put(tagData);
-        
-        // Bidirectional references: Tag ↔ Post
-        // Tag → Posts reference (save hash explicitly for easier retrieval)
-        const postHash = postData.id;
-        tagNode.get('posts').get(postHash).put({ hash: postHash, timestamp: postData.timestamp });
-        // Also set the node reference for graph navigation
-        tagNode.get('posts').set(postNode);
-        // Post → Tags reference
-        postNode.get('tags').set(tagNode);
+  private async _getOwnFollowersKey(): Promise<{ keyId: string; key: string }> {
+    const ring = await this._getOwnFollowersKeyRing();
+    return { keyId: ring.current, key: ring.keys[ring.current] };
+  }
+
+  /**
+   * An author's followers key with the given id, as granted to the current
+   * user (posts without a key id use the author's first key)
+   */
+  private async _getFollowersKey(authorPub: string, keyId?: string | null): Promise<string | null> {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return null;
+    }
+    const id = keyId || INITIAL_FOLLOWERS_KEY_ID;
+    if (authorPub === userPub) {
+      return (await this._getOwnFollowersKeyRing()).keys[id] || null;
+    }
+
+    const cacheKey = `${userPub}:${authorPub}`;
+    if (this.followersKeys[cacheKey]?.[id]) {
+      return this.followersKeys[cacheKey][id];
+    }
+
+    // Not cached, or the author rotated the key since: read the grant again
+    const ct = await new Promise<any>((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.gun.user(authorPub).get('followerKeys').get(userPub).once((data: any) => {
+        clearTimeout(timeoutId);
+        resolve(data);
       });
+    });
+    if (!ct) {
+      return null;
     }
+
+    const opened = await this.gun.SEA.decrypt(ct, await this._getDmSecret(authorPub));
+    const keys =
+      typeof opened === 'string' && opened ? { [INITIAL_FOLLOWERS_KEY_ID]: opened } : parseFollowersKeys(opened);
+    this.followersKeys[cacheKey] = keys;
+    return keys[id] || null;
   }
 
   /**
-   * Get post with author profile information
-   * Handles both PostPayload (content-addressed) and Post (legacy) formats
+   * Give a follower the current user's followers keys, encrypted with the
+   * secret shared with them (ECDH, as for direct messages)
    */
-  getPostWithAuthor(
-    postData: PostPayload | Post,
-    callback: (post: PostWithAuthor) => void
-  ): void {
-    const authorPub = 'authorPub' in postData ? postData.authorPub : postData.author;
+  private async _grantFollowerKey(followerPub: string): Promise<void> {
+    const { keys } = await this._getOwnFollowersKeyRing();
+    const ct = await this.gun.SEA.encrypt(keys, await this._getDmSecret(followerPub));
+    await new Promise<void>((resolve, reject) => {
+      this.user.get('followerKeys').get(followerPub).put(ct, (ack: any) =>
+        ack?.err ? reject(new Error(ack.err)) : resolve()
+      );
+    });
+  }
 
-    // Convert PostPayload to Post format for consistency
-    const post: Post = {
-      id: postData.id,
-      author: authorPub,
-      content: 'text' in postData ? postData.text : postData.content,
-      timestamp: postData.timestamp,
-      likes: 'likes' in postData ? postData.likes : {},
-      reposts: 'reposts' in postData ? postData.reposts : {},
-      replyTo: postData.replyTo || undefined,
-      media: 'media' in postData ? postData.media : postData.media,
-    };
+  /**
+   * Take the followers key away from a follower
+   * A removed follower may have kept the keys, so a new key is created for
+   * the posts to come and granted again to the remaining followers; the
+   * posts they could already read stay readable for them.
+   */
+  private async _rotateFollowersKey(removedPub: string): Promise<void> {
+    // A single read, since a map read may settle before every grant arrives
+    const grant = await this._readValue(this.user.get('followerKeys').get(removedPub));
+    if (!grant) {
+      throw new Error('Followers key grants could not be read, try again');
+    }
+    if (!grant.value) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.user.get('followerKeys').get(removedPub).put(null, (ack: any) =>
+        ack?.err ? reject(new Error(ack.err)) : resolve()
+      );
+    });
 
-    // If we have the author in cache, use it
-    if (this.profilesCache[authorPub]) {
-      callback({
-        ...post,
-        authorProfile: this.profilesCache[authorPub],
+    const ring = await this._getOwnFollowersKeyRing();
+    const keyId = newFollowersKeyId();
+    const rotated = { current: keyId, keys: { ...ring.keys, [keyId]: generateSymmetricKey() } };
+    await this._storeOwnFollowersKeyRing(rotated);
+    this.ownFollowersKeyRings[this.getCurrentUserPub() || ''] = rotated;
+
+    const [granted, moderation] = await Promise.all([
+      this._readMapEntries(this.user.get('followerKeys')),
+      this.getModerationList(),
+    ]);
+    await Promise.all(
+      Object.keys(granted)
+        .filter((pub) => granted[pub] && pub !== removedPub && !moderation.blocked[pub])
+        .map((pub) => this._grantFollowerKey(pub))
+    );
+  }
+
+  /**
+   * Give the followers key to the current followers that don't have it
+   * yet, except blocked accounts
+   * Anyone can write to users/<pub>/followers, so it only lists candidates:
+   * the key goes to those whose follow is signed in their own graph
+   * (~<follower>/following/<pub>). The grants, signed by the owner in
+   * ~<pub>/followerKeys, are the list of accepted followers.
+   */
+  private async _grantFollowerKeyToFollowers(userPub: string): Promise<void> {
+    const [candidates, granted, moderation] = await Promise.all([
+      this._readRelation(userPub, 'followers'),
+      this._readMapEntries(this.user.get('followerKeys')),
+      this.getModerationList(),
+    ]);
+    const followers = candidates.filter((followerPub) => !granted[followerPub] && !moderation.blocked[followerPub]);
+    const signed = await Promise.all(followers.map((followerPub) => this._hasSignedFollow(followerPub, userPub)));
+    await Promise.all(
+      followers.filter((_, index) => signed[index]).map((followerPub) => this._grantFollowerKey(followerPub))
+    );
+  }
+
+  /**
+   * Whether a follow is signed in the follower's graph (written by useFollow)
+   */
+  private _hasSignedFollow(followerPub: string, targetPub: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => resolve(false), READ_TIMEOUT);
+      this.gun.user(followerPub).get('following').get(targetPub).once((entry: any) => {
+        clearTimeout(timeoutId);
+        resolve(!!entry && typeof entry === 'object' && typeof entry.timestamp === 'number');
       });
-    } else {
-      // Otherwise, fetch from user space
-      this.gun.user(authorPub).get('profile').once((profile: UserProfile) => {
-        this.profilesCache[authorPub] = profile || { displayName: 'Anonimo' };
-        callback({
-          ...post,
-          authorProfile: this.profilesCache[authorPub],
-        });
+    });
+  }
+
+  /**
+   * Send an end-to-end encrypted direct message
+   * The message is written to the sender's signed graph; a pointer on the
+   * peer's public node lets them discover the conversation.
+   */
+  async sendDirectMessage(
+    peerPub: string,
+    text: string
+  ): Promise<{ success: boolean; error?: string; id?: string }> {
+    if (!this.isAuthenticated()) {
+      return { success: false, error: 'Non sei loggato' };
+    }
+
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return { success: false, error: 'User pub not found' };
+    }
+    if (peerPub === userPub) {
+      return { success: false, error: 'Cannot message yourself' };
+    }
+    if (!text.trim()) {
+      return { success: false, error: 'Message is empty' };
+    }
+
+    try {
+      const secret = await this._getDmSecret(peerPub);
+      const SEA = this.gun.SEA;
+      const timestamp = Date.now();
+      const id = `${timestamp}_${Math.random().toString(36).slice(2, 10)}`;
+      const ct = await SEA.encrypt(text, secret);
+
+      await new Promise<void>((resolve, reject) => {
+        this.user
+          .get('dm')
+          .get(peerPub)
+          .get(id)
+          .put({ ct, timestamp }, (ack: any) => (ack?.err ? reject(new Error(ack.err)) : resolve()));
       });
+
+      this.user.get('conversations').get(peerPub).put({ lastMessageAt: timestamp });
+      this.gun.get('users').get(peerPub).get('conversations').get(userPub).put({ lastMessageAt: timestamp });
+
+      return { success: true, id };
+    } catch (error) {
+      console.error('Error sending direct message:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send message',
+      };
     }
   }
 
   /**
-   * View global timeline (content-addressed immutable posts)
-   * Reads from #posts node using hashes stored in timeline
+   * View the messages exchanged with a peer, decrypted, from both signed graphs
    */
-  viewGlobalTimeline(callback: (post: PostWithAuthor) => void): () => void {
-    // Get today's posts (for simplicity, in production load multiple days)
-    const today = new Date().toISOString().split('T')[0];
+  viewConversation(peerPub: string, callback: (message: DirectMessage) => void): () => void {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
+      return () => {};
+    }
 
-    const listener = this.gun
-      .get(this.appName)
-      .get('timeline')
-      .get(today)
-      .map()
-      .on((postSoul: string, hash: string) => {
-        if (postSoul && typeof postSoul === 'string' && hash && !hash.startsWith('_')) {
-          // Get the actual post data using the soul
-          this.gun.get(postSoul).once((postData: any) => {
-            if (postData && typeof postData === 'object') {
-              const { _, ...cleanPostData } = postData;
-              const postPayload: PostPayload = {
-                id: hash,
-                text: cleanPostData.text || '',
-                media: cleanPostData.media || null,
-                authorPub: cleanPostData.authorPub || '',
-                timestamp: cleanPostData.timestamp || Date.now(),
-                replyTo: cleanPostData.replyTo || null,
-              };
-              if (postPayload.text) {
-                this.getPostWithAuthor(postPayload, callback);
-              }
-            }
-          });
+    const sentNode = this.user.get('dm').get(peerPub);
+    const receivedNode = this.gun.user(peerPub).get('dm').get(userPub);
+    const processedIds = new Set<string>();
+
+    const listen = (node: any, from: string, to: string) => {
+      node.map().on(async (data: any, id: string) => {
+        if (!id || id.startsWith('_') || !data || typeof data !== 'object' || !data.ct) {
+          return;
+        }
+        const key = `${from}/${id}`;
+        if (processedIds.has(key)) {
+          return;
+        }
+        processedIds.add(key);
+
+        try {
+          const secret = await this._getDmSecret(peerPub);
+          const text = await this.gun.SEA.decrypt(data.ct, secret);
+          if (typeof text !== 'string') {
+            console.warn('Could not decrypt direct message:', key);
+            return;
+          }
+          callback({ id, from, to, text, timestamp: data.timestamp || 0 });
+        } catch (e) {
+          processedIds.delete(key);
+          console.error('Error decrypting direct message:', e);
         }
       });
+    };
+
+    listen(sentNode, userPub, peerPub);
+    listen(receivedNode, peerPub, userPub);
 
-    // Return cleanup function
     return () => {
       try {
-        this.gun.get(this.appName).get('timeline').get(today).map().off();
+        sentNode.map().off();
+        receivedNode.map().off();
       } catch (e) {
-        console.error('Error cleaning up timeline listener:', e);
+        console.error('Error cleaning up conversation listener:', e);
       }
     };
   }
 
   /**
-   * View timeline of followed users only (content-addressed)
+   * View the current user's conversations
+   * Combines conversations the user started (signed graph) with pointers
+   * left by peers on the user's public node.
    */
-  viewFollowingTimeline(followingList: string[], callback: (post: PostWithAuthor) => void): () => void {
-    if (!followingList || followingList.length === 0) {
-      // Return empty cleanup function if no following
+  viewConversations(callback: (conversation: Conversation) => void): () => void {
+    const userPub = this.getCurrentUserPub();
+    if (!userPub) {
       return () => {};
     }
 
-    const today = new Date().toISOString().split('T')[0];
-    const followingSet = new Set(followingList);
-    const cleanupFunctions: (() => void)[] = [];
+    const conversations: Record<string, Conversation> = {};
+    const update = (peerPub: string, field: 'lastSentAt' | 'lastReceivedAt', data: any) => {
+      if (!peerPub || peerPub.startsWith('_') || peerPub === userPub || !data || typeof data !== 'object') {
+        return;
+      }
+      const conversation = conversations[peerPub] || { peerPub, lastSentAt: 0, lastReceivedAt: 0 };
+      conversation[field] = Math.max(conversation[field], data.lastMessageAt || 0);
+      conversations[peerPub] = conversation;
+      callback({ ...conversation });
+    };
 
-    // Listen to timeline and filter by following (content-addressed)
-    this.gun
-      .get(this.appName)
-      .get('timeline')
-      .get(today)
-      .map()
-      .on((postSoul: string, hash: string) => {
-        if (postSoul && typeof postSoul === 'string' && hash && !hash.startsWith('_')) {
-          // Get the actual post data using the soul
-          this.gun.get(postSoul).once((postData: any) => {
-            if (postData && typeof postData === 'object') {
-              const { _, ...cleanPostData } = postData;
-              const authorPub = cleanPostData.authorPub || '';
-              // Only show posts from users we follow
-              if (authorPub && followingSet.has(authorPub)) {
-                const postPayload: PostPayload = {
-                  id: hash,
-                  text: cleanPostData.text || '',
-                  media: cleanPostData.media || null,
-                  authorPub: authorPub,
-                  timestamp: cleanPostData.timestamp || Date.now(),
-                  replyTo: cleanPostData.replyTo || null,
-                };
-                if (postPayload.text) {
-                  this.getPostWithAuthor(postPayload, callback);
-                }
-              }
-            }
-          });
-        }
-      });
+    const ownNode = this.user.get('conversations');
+    const inboxNode = this.gun.get('users').get(userPub).get('conversations');
+    ownNode.map().on((data: any, peerPub: string) => update(peerPub, 'lastSentAt', data));
+    inboxNode.map().on((data: any, peerPub: string) => update(peerPub, 'lastReceivedAt', data));
 
-    cleanupFunctions.push(() => {
+    return () => {
       try {
-        this.gun.get(this.appName).get('timeline').get(today).map().off();
+        ownNode.map().off();
+        inboxNode.map().off();
       } catch (e) {
-        console.error('Error cleaning up following timeline listener:', e);
+        console.error('Error cleaning up conversations listener:', e);
       }
-    });
-
-    // Return cleanup function
-    return () => {
-      cleanupFunctions.forEach(cleanup => {
-        try {
-          cleanup();
-        } catch (e) {
-          console.error('Error in cleanup:', e);
-        }
-      });
     };
   }
 
   /**
-   * View replies to a specific post (Thread)
+   * Record that the current user has read a conversation up to now
+   * Stored in the signed graph so the peer can show a read receipt.
    */
-  viewReplies(postId: string, callback: (reply: PostWithAuthor) => void): () => void {
-    const listener = this.gun
-      .get(this.appName)
-      .get('posts')
-      .get(postId)
-      .get('replies')
-      .map()
-      .on((reply: PostPayload) => {
-        if (reply) {
-          this.getPostWithAuthor(reply, callback);
-        }
-      });
+  markConversationRead(peerPub: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.isAuthenticated()) {
+        reject(new Error('Not authenticated'));
+        return;
+      }
+      this.user
+        .get('dmReads')
+        .get(peerPub)
+        .put({ readAt: Date.now() }, (ack: any) => (ack?.err ? reject(new Error(ack.err)) : resolve()));
+    });
+  }
+
+  /**
+   * View up to when `readerPub` has read their conversation with `peerPub`
+   * Use (peer, me) for read receipts and (me, peer) for unread state.
+   */
+  viewConversationReadAt(
+    readerPub: string,
+    peerPub: string,
+    callback: (readAt: number) => void
+  ): () => void {
+    const readNode = this.gun.user(readerPub).get('dmReads').get(peerPub);
+    readNode.on((data: any) => {
+      if (data && typeof data === 'object' && typeof data.readAt === 'number') {
+        callback(data.readAt);
+      }
+    });
 
-    // Return cleanup function
     return () => {
       try {
-        this.gun.get(this.appName).get('posts').get(postId).get('replies').map().off();
+        readNode.off();
       } catch (e) {
-        console.error('Error cleaning up replies listener:', e);
+        console.error('Error cleaning up read receipt listener:', e);
       }
     };
   }
 
   /**
-   * Get posts by hashtag
-   * Now uses bidirectional references (GUN Design Pattern) via getTagPosts
+   * Derive (and cache) the ECDH secret shared with a peer
    */
-  viewHashtag(hashtag: string, callback: (post: PostWithAuthor) => void): () => void {
-    // Use the bidirectional getTagPosts method for better graph navigation
-    return this.getTagPosts(hashtag, callback);
+  private async _getDmSecret(peerPub: string): Promise<string> {
+    // Keyed by both pubs: the same instance may outlive a logout/login
+    const cacheKey = `${this.getCurrentUserPub()}:${peerPub}`;
+    if (this.dmSecrets[cacheKey]) {
+      return this.dmSecrets[cacheKey];
+    }
+
+    const SEA = this.gun.SEA;
+    const pair = this.user?._?.sea;
+    if (!SEA || !SEA.secret || !pair) {
+      throw new Error('SEA key pair not available - direct messages require a logged in user');
+    }
+
+    const peerEpub = await new Promise<string | null>((resolve) => {
+      const timeoutId = setTimeout(() => resolve(null), READ_TIMEOUT);
+      this.gun.user(peerPub).get('epub').once((epub: any) => {
+        clearTimeout(timeoutId);
+        resolve(typeof epub === 'string' ? epub : null);
+      });
+    });
+    if (!peerEpub) {
+      throw new Error('Encryption key of the recipient not found');
+    }
+
+    const secret = await SEA.secret(peerEpub, pair);
+    if (!secret) {
+      throw new Error('Failed to derive shared secret');
+    }
+    this.dmSecrets[cacheKey] = secret;
+    return secret;
   }
 
   /**
@@ -470,12 +4052,21 @@ export class SocialNetwork {
       callback(this.profilesCache[userPub]);
     } else {
       this.gun.user(userPub).get('profile').once((profile: UserProfile) => {
-        this.profilesCache[userPub] = profile || { displayName: 'Anonimo' };
+        this._cacheProfile(userPub, profile);
         callback(this.profilesCache[userPub]);
       });
     }
   }
 
+  /**
+   * Cache a profile read from user space and add it to the search index
+   */
+  private _cacheProfile(userPub: string, profile: UserProfile | null): void {
+    this.profilesCache[userPub] = profile || { displayName: 'Anonimo' };
+    const { displayName, bio } = this.profilesCache[userPub];
+    searchIndex.add('user', userPub, [displayName, bio].filter(Boolean).join(' '));
+  }
+
   /**
    * Update current user's profile
    */
@@ -494,10 +4085,12 @@ export class SocialNetwork {
             // Update cache
             const userPub = this.getCurrentUserPub();
             if (userPub) {
-              this.profilesCache[userPub] = {
+              this._cacheProfile(userPub, {
                 ...this.profilesCache[userPub],
                 ...profileData,
-              };
+              });
+              this._registerHandles(userPub);
+              this._indexProfileSearchTokens(userPub);
             }
             resolve();
           }
@@ -677,8 +4270,22 @@ export class SocialNetwork {
         }
       }
 
+      // Tags added by an edit are indexed too (encrypted posts are never
+      // indexed, and their stored text is ciphertext)
+      const isPrivate = isSealedVisibility(postData.visibility);
+      const latestRevision = isPrivate ? null : await this.getLatestRevision(postId, userPub);
+      if (latestRevision) {
+        this._unindexHashtags(this._extractHashtags(latestRevision.text), postId);
+        this._unindexSearchTokens(uniqueTokens(latestRevision.text), postId);
+      }
+      if (!isPrivate) {
+        this._unindexSearchTokens(uniqueTokens(postData.text || ''), postId);
+      }
+      searchIndex.remove('post', postId);
+      delete this.revisedTexts[postId];
+
       // Delete from hashtags (if exists) - remove bidirectional references
-      const postText = postData.text || '';
+      const postText = isPrivate ? '' : postData.text || '';
       if (postText) {
         const hashtags = postText.match(/#\w+/g);
         if (hashtags) {
@@ -699,6 +4306,19 @@ export class SocialNetwork {
       postNode.get('author').put(null);
       userPublicNode.get('posts_bidirectional').get(postId).put(null);
 
+      // Remove the quote back-reference from the quoted post (quotes of
+      // this post keep their quoteOf and embed a "post unavailable" card)
+      if (postData.quoteOf) {
+        this.gun.get(this.appName).get('posts').get(postData.quoteOf).get('quotes').get(postId).put(null);
+        postNode.get('quoteOf').put(null);
+      }
+
+      // A deleted post cannot stay pinned
+      this.unpinPost(postId);
+
+      // Nor keep its likes, reposts and reactions
+      this._clearInteractions(postId);
+
       // Remove bidirectional Reply ↔ Parent references (if it's a reply)
       if (postData.replyTo) {
         const parentPostNode = this.gun.get(this.appName).get('posts').get(postData.replyTo);
@@ -728,8 +4348,26 @@ export class SocialNetwork {
         
         // Remove the replyTo reference from this post
         postNode.get('replyTo').put(null);
+
+        const parentAuthor = await getPostAuthorPub(this.gun, postData.replyTo, READ_TIMEOUT);
+        if (parentAuthor) {
+          retractNotification(this.gun, parentAuthor, 'reply', userPub, postId);
+        }
       }
 
+      // Withdraw mention notifications and index entries: the mentions of
+      // encrypted posts are opened with the post key, and users mentioned
+      // only by an edit are included
+      const opened = await this.openPostContent(postData);
+      const mentionedPubs = new Set([
+        ...Object.values(opened ? opened.mentions : parseMentions(postData.mentions)),
+        ...(await this._readRevisionMentions(postId, userPub)),
+      ]);
+      mentionedPubs.forEach((mentionedPub) => {
+        this.gun.get('users').get(mentionedPub).get('mentions').get(postId).put(null);
+        retractNotification(this.gun, mentionedPub, 'mention', userPub, postId);
+      });
+
       // Remove all replies to this post
       // First, get all replies and remove them from their authors' posts indices
       const repliesNode = postNode.get('replies');
@@ -815,21 +4453,11 @@ export class SocialNetwork {
           // Get the soul from the entry or use hash to find it
           const postSoul = postEntry.soul || hash;
           
-          // Get the actual post data using the soul
-          this.gun.get(postSoul).once((postData: any) => {
-            if (postData && typeof postData === 'object') {
-              const { _, ...cleanPostData } = postData;
-              const postPayload: PostPayload = {
-                id: hash,
-                text: cleanPostData.text || '',
-                media: cleanPostData.media || null,
-                authorPub: cleanPostData.authorPub || userPub,
-                timestamp: cleanPostData.timestamp || postEntry.timestamp || Date.now(),
-                replyTo: cleanPostData.replyTo || null,
-              };
-              if (postPayload.text) {
-                this.getPostWithAuthor(postPayload, callback);
-              }
+          // Get the actual (verified) post data using the soul
+          this._loadPostPayload(hash, postSoul).then((postPayload) => {
+            // users/{userPub}/posts is public: ignore entries pointing at someone else's post
+            if (postPayload && postPayload.authorPub === userPub) {
+              this.getPostWithAuthor(postPayload, callback);
             }
           });
         }
@@ -892,28 +4520,12 @@ export class SocialNetwork {
   getTagPosts(tagSlug: string, callback: (post: PostWithAuthor) => void): () => void {
     const cleanTag = tagSlug.replace('#', '').toLowerCase();
     const tagNode = this.gun.get(this.appName).get('hashtags').get(cleanTag);
+    callback = this._moderated(callback, (post) => post.author);
     
     const loadPostFromHash = (postHash: string) => {
-      // Get soul from #posts using hash
-      this.gun.get('#posts').get(postHash).once((postSoul: string) => {
-        if (postSoul && typeof postSoul === 'string') {
-          // Get the actual post data using the soul
-          this.gun.get(postSoul).once((postData: any) => {
-            if (postData && typeof postData === 'object') {
-              const { _, ...cleanPostData } = postData;
-              const postPayload: PostPayload = {
-                id: postHash,
-                text: cleanPostData.text || '',
-                media: cleanPostData.media || null,
-                authorPub: cleanPostData.authorPub || '',
-                timestamp: cleanPostData.timestamp || Date.now(),
-                replyTo: cleanPostData.replyTo || null,
-              };
-              if (postPayload.text) {
-                this.getPostWithAuthor(postPayload, callback);
-              }
-            }
-          });
+      this._loadPostByHash(postHash).then((postPayload) => {
+        if (postPayload) {
+          this.getPostWithAuthor(postPayload, callback);
         }
       });
     };
@@ -972,15 +4584,12 @@ export class SocialNetwork {
    * This leverages the Reply → Parent reference created during publishPost
    */
   getParentPost(replyId: string, callback: (post: PostWithAuthor) => void): void {
-    const replyNode = this.gun.get(this.appName).get('posts').get(replyId);
-    
-    replyNode.get('replyTo').once((parentNode: any) => {
-      if (parentNode && typeof parentNode === 'object') {
-        parentNode.once((postData: PostPayload) => {
-          if (postData) {
-            this.getPostWithAuthor(postData, callback);
-          }
-        });
+    // The replyTo reference leads to the parent's interactions node, which
+    // holds no content: the parent is resolved by hash from the reply payload
+    this._loadPostByHash(replyId).then(async (reply) => {
+      const parent = reply?.replyTo ? await this._loadPostByHash(reply.replyTo) : null;
+      if (parent) {
+        this.getPostWithAuthor(parent, callback);
       }
     });
   }
@@ -0,0 +1,71 @@
+/**
+ * Trending hashtags
+ * Tags are ranked by acceleration: how much their usage in the current
+ * window grew compared to the window just before it, so a tag that is
+ * always busy does not stay on top forever.
+ */
+
+export type TrendingWindow = '1h' | '24h' | '7d';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const TRENDING_WINDOWS: Record<TrendingWindow, number> = {
+  '1h': HOUR_MS,
+  '24h': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS,
+};
+
+/** Tags used fewer times than this in the window are not trending */
+export const MIN_TRENDING_USES = 2;
+
+export interface TagWindowStats {
+  count: number; // Uses in the current window
+  previous: number; // Uses in the window before it
+}
+
+export interface TrendingTag {
+  name: string;
+  stats: Record<TrendingWindow, TagWindowStats>;
+  score: number; // Acceleration in the ranked window
+}
+
+/**
+ * Count the uses of a tag in the current and previous occurrence of each window
+ */
+export function tagWindowStats(timestamps: number[], now: number): Record<TrendingWindow, TagWindowStats> {
+  const stats = {} as Record<TrendingWindow, TagWindowStats>;
+  (Object.keys(TRENDING_WINDOWS) as TrendingWindow[]).forEach((window) => {
+    const size = TRENDING_WINDOWS[window];
+    stats[window] = {
+      count: timestamps.filter((time) => time > now - size && time <= now).length,
+      previous: timestamps.filter((time) => time > now - 2 * size && time <= now - size).length,
+    };
+  });
+  return stats;
+}
+
+/**
+ * Relative growth of a window over the previous one, smoothed so that a
+ * tag going from 0 to 1 use does not outrank one going from 10 to 40
+ */
+export function acceleration({ count, previous }: TagWindowStats): number {
+  return (count - previous) / (previous + 1);
+}
+
+/**
+ * Rank tags by acceleration in a window
+ * @param activity - tag name -> timestamps of the posts using it
+ */
+export function rankTrendingTags(
+  activity: Record<string, number[]>,
+  window: TrendingWindow,
+  now: number = Date.now()
+): TrendingTag[] {
+  return Object.entries(activity)
+    .map(([name, timestamps]) => {
+      const stats = tagWindowStats(timestamps, now);
+      return { name, stats, score: acceleration(stats[window]) };
+    })
+    .filter((tag) => tag.stats[window].count >= MIN_TRENDING_USES && tag.score > 0)
+    .sort((a, b) => b.score - a.score || b.stats[window].count - a.stats[window].count);
+}